@@ -35,6 +35,7 @@ export default [
       "prefer-const": "error",
       "no-var": "error",
       "no-undef": "off", // Turn off since we're using TypeScript
+      "no-redeclare": "off", // TypeScript reports redeclarations and allows overloads
     },
   },
   {
@@ -71,6 +72,7 @@ export default [
       "prefer-const": "error",
       "no-var": "error",
       "no-undef": "off",
+      "no-redeclare": "off",
     },
   },
   {
@@ -0,0 +1,59 @@
+import * as React from "react";
+import { AnyStorageAdapter } from "./types";
+
+/** Namespace and backend applied to the hooks below a provider. */
+export type LocalStorageStateScope = {
+  namespace: string | undefined;
+  storage: AnyStorageAdapter | undefined;
+};
+
+export const LocalStorageStateContext =
+  React.createContext<LocalStorageStateScope>({
+    namespace: undefined,
+    storage: undefined,
+  });
+
+export type LocalStorageStateProviderProps = {
+  /**
+   * Prefixes the keys of every nested hook as `${namespace}::${key}`, so
+   * each user, account or tenant gets its own state.
+   */
+  namespace?: string;
+  /** Backend used by nested hooks that do not pass their own `storage`. */
+  storage?: AnyStorageAdapter;
+  children?: React.ReactNode;
+};
+
+/**
+ * Scopes the `useLocalStorageState` calls below it to a namespace and, when
+ * given, a storage backend. Options left out are inherited from an
+ * enclosing provider. Switching `namespace` makes the nested hooks read the
+ * state of the new scope and report it to `onChange` with the `"namespace"`
+ * source.
+ *
+ * @example
+ * ```tsx
+ * <LocalStorageStateProvider namespace={user.id}>
+ *   <App />
+ * </LocalStorageStateProvider>
+ * ```
+ */
+export function LocalStorageStateProvider({
+  namespace,
+  storage,
+  children,
+}: LocalStorageStateProviderProps) {
+  const parent = React.useContext(LocalStorageStateContext);
+  const scope = React.useMemo(
+    () => ({
+      namespace: namespace ?? parent.namespace,
+      storage: storage ?? parent.storage,
+    }),
+    [namespace, storage, parent]
+  );
+  return (
+    <LocalStorageStateContext.Provider value={scope}>
+      {children}
+    </LocalStorageStateContext.Provider>
+  );
+}
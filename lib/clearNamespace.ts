@@ -0,0 +1,67 @@
+import { localStorageAdapter } from "./storage/webStorage";
+import {
+  AnyStorageAdapter,
+  AsyncStorageAdapter,
+  StorageAdapter,
+} from "./types";
+import { namespacedKey } from "./utils/envelope";
+import { isAsyncStorage } from "./utils/isAsyncStorage";
+import { getMountedKeys } from "./utils/syncRegistry";
+
+function keysOf(storage: AnyStorageAdapter) {
+  if (!storage.keys) {
+    throw new TypeError(
+      "clearNamespace requires a storage adapter that implements keys()"
+    );
+  }
+  return storage.keys();
+}
+
+/**
+ * Removes every key of a `LocalStorageStateProvider` namespace from
+ * `storage` (default: localStorage), along with their fields, backups and
+ * histories, leaving other namespaces untouched. Mounted hooks and stores
+ * using those keys are cleared as well. Returns the keys that were removed.
+ *
+ * @example
+ * ```ts
+ * function logout(userId: string) {
+ *   clearNamespace(userId);
+ * }
+ * ```
+ */
+export function clearNamespace(
+  namespace: string,
+  storage?: StorageAdapter
+): string[];
+export function clearNamespace(
+  namespace: string,
+  storage: AsyncStorageAdapter
+): Promise<string[]>;
+export function clearNamespace(
+  namespace: string,
+  storage: AnyStorageAdapter = localStorageAdapter
+): string[] | Promise<string[]> {
+  const prefix = namespacedKey(namespace, "");
+  const inNamespace = (keys: string[]) =>
+    keys.filter((key) => key.startsWith(prefix));
+  // Mounted consumers would write their state back with their next update
+  const clearMounted = () => {
+    for (const [key, consumer] of getMountedKeys(storage)) {
+      if (key.startsWith(prefix)) consumer.clear();
+    }
+  };
+
+  if (isAsyncStorage(storage)) {
+    return (keysOf(storage) as Promise<string[]>).then(async (keys) => {
+      const removed = inNamespace(keys);
+      clearMounted();
+      for (const key of removed) await storage.removeItem(key);
+      return removed;
+    });
+  }
+  const removed = inNamespace(keysOf(storage) as string[]);
+  clearMounted();
+  for (const key of removed) storage.removeItem(key);
+  return removed;
+}
@@ -0,0 +1,62 @@
+import { Codec } from "./types";
+
+/**
+ * Stores a `Date` as an ISO 8601 string.
+ * Invalid dates are rejected on read so the field falls back to its default.
+ */
+export function dateCodec(): Codec<Date> {
+  return {
+    parse: (raw) => {
+      const date = new Date(raw);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`Invalid date: ${raw}`);
+      }
+      return date;
+    },
+    format: (value) => value.toISOString(),
+  };
+}
+
+/**
+ * Stores a `bigint` as its decimal string representation.
+ */
+export function bigintCodec(): Codec<bigint> {
+  return {
+    parse: (raw) => BigInt(raw),
+    format: (value) => value.toString(),
+  };
+}
+
+/**
+ * Stores a `Map` as a JSON array of `[key, value]` entries.
+ * Keys and values must themselves be JSON-serializable.
+ */
+export function mapCodec<K, V>(): Codec<Map<K, V>> {
+  return {
+    parse: (raw) => {
+      const entries: unknown = JSON.parse(raw);
+      if (!Array.isArray(entries)) {
+        throw new Error("Expected an array of map entries");
+      }
+      return new Map(entries as [K, V][]);
+    },
+    format: (value) => JSON.stringify(Array.from(value.entries())),
+  };
+}
+
+/**
+ * Stores a `Set` as a JSON array of its values.
+ * Values must themselves be JSON-serializable.
+ */
+export function setCodec<V>(): Codec<Set<V>> {
+  return {
+    parse: (raw) => {
+      const values: unknown = JSON.parse(raw);
+      if (!Array.isArray(values)) {
+        throw new Error("Expected an array of set values");
+      }
+      return new Set(values as V[]);
+    },
+    format: (value) => JSON.stringify(Array.from(value.values())),
+  };
+}
@@ -0,0 +1,161 @@
+import * as React from "react";
+import { createStateCore, resolveCoreConfig } from "./createStateCore";
+import {
+  DeepPartial,
+  LocalStorageStateOptions,
+  LocalStorageStore,
+} from "./types";
+import { resolveDefaults } from "./utils/resolveDefaults";
+import { SyncSnapshot } from "./utils/syncRegistry";
+
+type StateListener<T> = (state: T, prevState: T) => void;
+
+const identity = <T>(state: T) => state;
+
+/**
+ * Creates a store for a persisted object that can be used outside React and
+ * read from components through selectors.
+ *
+ * The store shares its state with every `useLocalStorageState` hook and store
+ * using the same `key` and `storage`, and follows changes made in other tabs.
+ * It is meant to be created once, at module level. Call `destroy` to stop
+ * listening for changes.
+ *
+ * @template T - The type of the state object. Must extend Record<string, unknown>
+ *
+ * @param defaultsOption - Default values for the state object, or a function returning them
+ * @param options - The same options as `useLocalStorageState`
+ *
+ * @returns A store with:
+ *   - `getState`, `getStatus`, `getError`: Read the current state, hydration status and last error
+ *   - `subscribe`: Register a listener called with the new and previous state after every change
+ *   - `useStore`: React hook returning `selector(state)`; re-renders only when the selection changes
+ *     according to `equalityFn` (default: `Object.is`)
+ *   - `setState`, `get`, `set`, `patch`, `remove`, `clear`, `reset`, `flush`, `undo`, `redo`,
+ *     `canUndo`, `canRedo`: The same actions as the hook's API
+ *   - `hydrate`: Apply the stored data when hydration is deferred
+ *   - `destroy`: Stop listening for changes
+ *
+ * @example
+ * ```tsx
+ * export const settingsStore = createLocalStorageStore(
+ *   { theme: 'light', fontSize: 14 },
+ *   { key: 'settings' }
+ * );
+ *
+ * // Outside React
+ * settingsStore.set('theme', 'dark');
+ *
+ * // Only re-renders when the theme changes
+ * function ThemeLabel() {
+ *   const theme = settingsStore.useStore((state) => state.theme);
+ *   return <span>{theme}</span>;
+ * }
+ * ```
+ */
+export function createLocalStorageStore<T extends Record<string, unknown>>(
+  defaultsOption: DeepPartial<T> | (() => DeepPartial<T>),
+  options: LocalStorageStateOptions<T>
+): LocalStorageStore<T> {
+  const config = resolveCoreConfig(
+    resolveDefaults<T>(defaultsOption),
+    options,
+    Symbol(options.key)
+  );
+  const core = createStateCore<T>(() => config);
+  const listeners = new Set<StateListener<T>>();
+  let serverSnapshot: SyncSnapshot<T> | null = null;
+
+  const getState = () => core.getSnapshot().state;
+  let prevState = getState();
+
+  const subscribe = (listener: StateListener<T>) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  // The store keeps its own subscription to the shared state for as long as
+  // it lives, so it keeps following changes made elsewhere
+  let cancelExpiry = () => {};
+  const cleanups: (() => void)[] = [];
+  if (typeof window !== "undefined") {
+    cleanups.push(
+      core.subscribe(() => {
+        cancelExpiry();
+        cancelExpiry = core.watchExpiry();
+        const state = getState();
+        if (state === prevState) return;
+        const previous = prevState;
+        prevState = state;
+        for (const listener of Array.from(listeners)) {
+          listener(state, previous);
+        }
+      }),
+      core.connect(),
+      () => cancelExpiry()
+    );
+    cancelExpiry = core.watchExpiry();
+    core.loadHistory();
+    // Deferred hydration of synchronous backends waits for the first render,
+    // reads from async backends or with encryption start right away
+    if (core.isAsyncPath()) void core.hydrate();
+  }
+
+  function useStore<S = T>(
+    selector: (state: T) => S = identity as (state: T) => S,
+    equalityFn: (a: S, b: S) => boolean = Object.is
+  ): S {
+    const cache = React.useRef<{
+      state: T;
+      selector: (state: T) => S;
+      selected: S;
+    } | null>(null);
+
+    const select = (state: T): S => {
+      const cached = cache.current;
+      if (cached && cached.state === state && cached.selector === selector) {
+        return cached.selected;
+      }
+      const next = selector(state);
+      // Keep the previous selection when it is equal, so nothing re-renders
+      const selected =
+        cached && equalityFn(cached.selected, next) ? cached.selected : next;
+      cache.current = { state, selector, selected };
+      return selected;
+    };
+
+    React.useEffect(() => {
+      void core.hydrate();
+    }, []);
+
+    return React.useSyncExternalStore(
+      subscribe,
+      () => select(getState()),
+      () => {
+        // The store may live across server renders, so the server snapshot
+        // is read once
+        serverSnapshot ??= core.readServerSnapshot();
+        return select(serverSnapshot.state);
+      }
+    );
+  }
+
+  return {
+    ...core.actions,
+    getState,
+    getStatus: () => core.getSnapshot().status,
+    getError: () => core.getSnapshot().error,
+    canUndo: core.canUndo,
+    canRedo: core.canRedo,
+    subscribe,
+    useStore,
+    hydrate: core.hydrate,
+    destroy: () => {
+      cleanups.forEach((cleanup) => cleanup());
+      cleanups.length = 0;
+      listeners.clear();
+    },
+  };
+}
@@ -0,0 +1,1564 @@
+import {
+  LocalStorageStateError,
+  StorageDecryptionError,
+  StorageMigrationError,
+  StorageParseError,
+  StorageQuotaExceededError,
+  StorageReadError,
+  StorageRemoveError,
+  StorageValidationError,
+  StorageWriteError,
+  toWriteError,
+} from "./errors";
+import { purgeKeys } from "./purgeExpired";
+import { localStorageAdapter } from "./storage/webStorage";
+import {
+  ChangeSource,
+  DeepPartial,
+  HydrationStatus,
+  LocalStorageStateOptions,
+} from "./types";
+import { formatFields, parseFields } from "./utils/applyCodecs";
+import {
+  isBroadcastChannelSupported,
+  postChannelMessage,
+  subscribeChannel,
+  SyncMessage,
+} from "./utils/broadcast";
+import { compressString, decompressString } from "./utils/compression";
+import { deepMerge, isPlainObject } from "./utils/deepMerge";
+import { connectDevtools, recordDevtools } from "./utils/devtoolsHook";
+import {
+  backupKey,
+  fieldKey,
+  historyKey,
+  readManifest,
+  unwrapEnvelope,
+  wrapEnvelope,
+  wrapManifest,
+} from "./utils/envelope";
+import {
+  decryptString,
+  encryptString,
+  isEncrypted,
+  resolveKeys,
+} from "./utils/encryption";
+import {
+  dropExpired,
+  Expiry,
+  MAX_TIMER_DELAY,
+  nextExpiry,
+  touchExpiry,
+} from "./utils/expiry";
+import { emptyHistory, History, recordHistory } from "./utils/history";
+import { isAsyncStorage } from "./utils/isAsyncStorage";
+import { mergeByField } from "./utils/mergeByField";
+import { mergeWithDefaults } from "./utils/mergeWithDefaults";
+import { readStorage } from "./utils/readStorage";
+import { removeStorage } from "./utils/removeStorage";
+import { isSameRevision, nextRevision, Revision } from "./utils/revision";
+import { runMigrations } from "./utils/runMigrations";
+import { defaultDeserialize, defaultSerialize } from "./utils/serialization";
+import { scheduleWrite } from "./utils/scheduleWrite";
+import {
+  evictLeastRecentlyUsed,
+  getManagedKeys,
+  storedKeysOf,
+  storedSize,
+  touchManagedKey,
+} from "./utils/storageUsage";
+import {
+  cancelEntryWrite,
+  claimStorageEvent,
+  emptyFieldLayout,
+  enqueueWrite,
+  flushEntryWrite,
+  getSyncEntry,
+  getSyncSnapshot,
+  publishSyncSnapshot,
+  releaseSyncEntry,
+  scheduleEntryWrite,
+  MountedConsumer,
+  subscribeSyncState,
+  SyncEntry,
+  SyncMeta,
+  SyncSnapshot,
+} from "./utils/syncRegistry";
+import { validateWithSchema } from "./utils/validateWithSchema";
+import { writeStorage } from "./utils/writeStorage";
+
+type ReportError = (error: LocalStorageStateError) => void;
+
+// States kept to find the base of a concurrent write from another tab
+const SYNCED_LIMIT = 16;
+
+// A parsed stored value. For a perField manifest, `fields` lists the fields
+// stored under their own keys and `data` is not set.
+type ParsedValue = ReturnType<typeof unwrapEnvelope> & {
+  fields: string[] | undefined;
+};
+
+/**
+ * Options with their defaults applied, plus the resolved defaults object and
+ * the origin used to tell this consumer's changes apart from others.
+ */
+export type CoreConfig<T extends Record<string, unknown>> = Omit<
+  LocalStorageStateOptions<T>,
+  | "storage"
+  | "syncAcrossTabs"
+  | "syncTransport"
+  | "version"
+  | "migrationFallback"
+  | "clearTo"
+  | "quotaPolicy"
+  | "arrayMerge"
+  | "hydrate"
+  | "validateWrites"
+  | "writeStrategy"
+  | "history"
+  | "strategy"
+> &
+  Required<
+    Pick<
+      LocalStorageStateOptions<T>,
+      | "storage"
+      | "syncAcrossTabs"
+      | "syncTransport"
+      | "version"
+      | "migrationFallback"
+      | "clearTo"
+      | "quotaPolicy"
+      | "arrayMerge"
+      | "hydrate"
+      | "validateWrites"
+      | "writeStrategy"
+      | "strategy"
+    >
+  > & {
+    defaults: DeepPartial<T>;
+    origin: symbol;
+    historyLimit: number | undefined;
+    persistHistory: boolean;
+  };
+
+export function resolveCoreConfig<T extends Record<string, unknown>>(
+  defaults: DeepPartial<T>,
+  options: LocalStorageStateOptions<T>,
+  origin: symbol
+): CoreConfig<T> {
+  const {
+    storage = localStorageAdapter,
+    syncAcrossTabs = true,
+    syncTransport = "storage-event",
+    version = 0,
+    migrationFallback = "defaults",
+    clearTo = "defaults",
+    quotaPolicy = "fail",
+    arrayMerge = "replace",
+    hydrate = "immediate",
+    validateWrites = false,
+    writeStrategy = "immediate",
+    strategy = "single",
+    history,
+    ...rest
+  } = options;
+  return {
+    ...rest,
+    storage,
+    syncAcrossTabs,
+    syncTransport,
+    version,
+    migrationFallback,
+    clearTo,
+    quotaPolicy,
+    arrayMerge,
+    hydrate,
+    validateWrites,
+    writeStrategy,
+    strategy,
+    defaults,
+    origin,
+    historyLimit: history ? history.limit ?? 100 : undefined,
+    persistHistory: history?.persist === true,
+  };
+}
+
+/**
+ * The read, migrate and write logic shared by `useLocalStorageState` and
+ * `createLocalStorageStore`. State lives in the sync registry, so every
+ * consumer of the same key sees the same snapshot. `getConfig` is read on
+ * every call, letting the hook pass new options on each render.
+ */
+export function createStateCore<T extends Record<string, unknown>>(
+  getLatestConfig: () => CoreConfig<T>
+) {
+  // Held-back writes run with the options they were scheduled under, so a
+  // key or namespace change in the meantime cannot send them to another key
+  let pinnedConfig: CoreConfig<T> | undefined;
+  const getConfig = () => pinnedConfig ?? getLatestConfig();
+  const withConfig = (config: CoreConfig<T>, run: () => void) => {
+    const previous = pinnedConfig;
+    pinnedConfig = config;
+    try {
+      run();
+    } finally {
+      pinnedConfig = previous;
+    }
+  };
+
+  const currentEntry = () => {
+    const { storage, key } = getConfig();
+    return getSyncEntry<T>(storage, key);
+  };
+
+  const notifyError = (error: LocalStorageStateError) => {
+    getConfig().onError?.(error, {
+      operation: error.operation,
+      key: error.key,
+    });
+  };
+
+  // Publishes `next` to every consumer of the key, and reports the change to
+  // the devtools when they are enabled
+  const publish = (
+    entry: SyncEntry<T>,
+    next: SyncSnapshot<T>,
+    meta: SyncMeta
+  ) => {
+    const { storage, key } = getConfig();
+    const prev = entry.snapshot?.state;
+    publishSyncSnapshot(entry, next, meta);
+    if (prev === next.state) return;
+    recordDevtools({
+      key,
+      storage,
+      source: meta.source,
+      origin: meta.origin,
+      prev,
+      next: next.state,
+    });
+  };
+
+  // Async failures surface after the update has been published, so they are
+  // pushed to subscribers on their own.
+  const publishError = (
+    error: LocalStorageStateError,
+    entry: SyncEntry<T> = currentEntry()
+  ) => {
+    notifyError(error);
+    if (!entry.snapshot) return;
+    publish(
+      entry,
+      { ...entry.snapshot, error },
+      { source: "error", origin: undefined }
+    );
+  };
+
+  // Runs `task` with a reporter that records the last error it was given.
+  const track = <R>(
+    task: (report: ReportError) => R
+  ): [R, LocalStorageStateError | null] => {
+    let last: LocalStorageStateError | null = null;
+    const result = task((error) => {
+      last = error;
+      notifyError(error);
+    });
+    return [result, last];
+  };
+
+  // Reads and writes take the async path when the backend or the
+  // encryption is async. Writes then go through a queue so they land in order.
+  const isAsyncPath = () => {
+    const { storage, encryption } = getConfig();
+    return isAsyncStorage(storage) || encryption !== undefined;
+  };
+
+  /**
+   * Frees space for a write to `targetKey` that exceeded the quota of a
+   * synchronous backend, following `quotaPolicy`. Returns false once there is
+   * nothing left to free.
+   */
+  const makeRoom = (targetKey: string): boolean => {
+    const { storage, key, quotaPolicy, persistHistory } = getConfig();
+    if (isAsyncStorage(storage)) return false;
+    try {
+      switch (quotaPolicy) {
+        case "evict-lru":
+          return evictLeastRecentlyUsed(storage, key);
+        case "evict-expired": {
+          const keys =
+            storage.keys?.() ?? Array.from(getManagedKeys(storage).keys());
+          return purgeKeys(storage, keys, Date.now()).length > 0;
+        }
+        case "drop-oldest-history": {
+          // The history itself is shortened by writeHistory
+          const entry = currentEntry();
+          if (
+            !persistHistory ||
+            targetKey === historyKey(key) ||
+            entry.history.past.length === 0 ||
+            storage.getItem(historyKey(key)) === null
+          ) {
+            return false;
+          }
+          // Written again, without its oldest step, after the data
+          entry.history = {
+            ...entry.history,
+            past: entry.history.past.slice(1),
+          };
+          storage.removeItem(historyKey(key));
+          return true;
+        }
+        case "fail":
+          return false;
+      }
+    } catch {
+      // The write reports the quota error
+      return false;
+    }
+  };
+
+  const writeRaw = (targetKey: string, raw: string, report: ReportError) => {
+    const { storage, key, encryption, quotaPolicy } = getConfig();
+    touchManagedKey(storage, key, quotaPolicy === "evict-lru");
+    if (isAsyncStorage(storage) || encryption) {
+      const entry = currentEntry();
+      void enqueueWrite(entry, async () => {
+        let value = raw;
+        if (encryption) {
+          try {
+            value = await encryptString(raw, await encryption.key);
+          } catch (error) {
+            publishError(
+              new StorageWriteError(
+                targetKey,
+                error,
+                `Failed to encrypt "${targetKey}"`
+              ),
+              entry
+            );
+            return;
+          }
+        }
+        if (!isAsyncStorage(storage)) {
+          writeStorage(
+            storage,
+            targetKey,
+            value,
+            (error) => publishError(error, entry),
+            () => makeRoom(targetKey)
+          );
+          return;
+        }
+        try {
+          await storage.setItem(targetKey, value);
+        } catch (error) {
+          publishError(toWriteError(targetKey, error), entry);
+        }
+      });
+      return;
+    }
+    writeStorage(storage, targetKey, raw, report, () => makeRoom(targetKey));
+  };
+
+  const removeRaw = (targetKey: string, report: ReportError) => {
+    const { storage, encryption } = getConfig();
+    if (isAsyncStorage(storage) || encryption) {
+      const entry = currentEntry();
+      void enqueueWrite(entry, async () => {
+        try {
+          await storage.removeItem(targetKey);
+        } catch (cause) {
+          publishError(new StorageRemoveError(targetKey, cause), entry);
+        }
+      });
+      return;
+    }
+    removeStorage(storage, targetKey, report);
+  };
+
+  /**
+   * Reads `targetKey` on the async path, decrypting it when `encryption` is
+   * set. Values encrypted with a previous key, or stored before encryption
+   * was turned on, are written back encrypted with the current key.
+   */
+  const readStored = async (
+    targetKey: string
+  ): Promise<[string | null, LocalStorageStateError | null]> => {
+    const { storage, encryption } = getConfig();
+    let last: LocalStorageStateError | null = null;
+    const report = (error: LocalStorageStateError) => {
+      last = error;
+      notifyError(error);
+    };
+    const raw = isAsyncStorage(storage)
+      ? await storage.getItem(targetKey)
+      : readStorage(storage, targetKey, report) ?? null;
+    if (!raw || !encryption) return [raw, last];
+    if (!isEncrypted(raw)) {
+      writeRaw(targetKey, raw, report);
+      return [raw, last];
+    }
+    try {
+      const { plain, keyIndex } = await decryptString(
+        raw,
+        await resolveKeys(encryption)
+      );
+      if (keyIndex > 0) writeRaw(targetKey, plain, report);
+      return [plain, last];
+    } catch (error) {
+      report(new StorageDecryptionError(targetKey, error));
+      return [null, last];
+    }
+  };
+
+  // Records `state` as being in storage at the current revision. A state
+  // read from storage starts over the list.
+  const markSynced = (state: T, read: boolean) => {
+    const entry = currentEntry();
+    const synced = read ? [] : entry.synced;
+    entry.synced = [...synced, { revision: entry.revision, state }].slice(
+      -SYNCED_LIMIT
+    );
+  };
+
+  // Compares two values of `field` as they would be stored
+  const isEqualField = (field: string, a: unknown, b: unknown) => {
+    if (Object.is(a, b)) return true;
+    const { codecs } = getConfig();
+    const format = (value: unknown) =>
+      defaultSerialize(formatFields({ [field]: value } as T, codecs));
+    try {
+      return format(a) === format(b);
+    } catch {
+      return false;
+    }
+  };
+
+  const parse = (raw: string, report: ReportError): ParsedValue | undefined => {
+    try {
+      const parsed = defaultDeserialize<unknown>(decompressString(raw));
+      const manifest = readManifest(parsed);
+      if (manifest)
+        return { ...manifest, data: undefined, revision: undefined };
+      return { ...unwrapEnvelope(parsed), fields: undefined };
+    } catch (error) {
+      report(new StorageParseError(getConfig().key, error));
+      return undefined;
+    }
+  };
+
+  /**
+   * Turns a stored value into the persisted state. A perField manifest is
+   * assembled from its fields, read through `readField`. Data stored with an
+   * older version or in the other layout is written back upgraded.
+   */
+  const decode = (
+    raw: string | null | undefined,
+    parsed: ParsedValue | undefined,
+    readField: (field: string) => string | null | undefined,
+    report: ReportError
+  ): Partial<T> => {
+    const {
+      key,
+      codecs,
+      version,
+      migrate,
+      migrations,
+      migrationFallback,
+      strategy,
+    } = getConfig();
+    const entry = currentEntry();
+    entry.fieldLayout = emptyFieldLayout();
+    entry.revision = parsed?.revision;
+    if (!raw || !parsed) return {};
+    let stored: ReturnType<typeof unwrapEnvelope> = parsed;
+    if (parsed.fields) {
+      entry.fieldLayout.manifest = raw;
+      const assembled: Record<string, unknown> = {};
+      for (const field of parsed.fields) {
+        const fieldRaw = readField(field);
+        if (!fieldRaw) continue;
+        entry.fieldLayout.fields.set(field, fieldRaw);
+        try {
+          assembled[field] = defaultDeserialize<unknown>(
+            decompressString(fieldRaw)
+          );
+        } catch (error) {
+          report(new StorageParseError(key, error, field));
+        }
+      }
+      stored = { ...parsed, data: assembled };
+    }
+    // Expired data is dropped before anything else looks at it
+    const live = dropExpired(stored.data, stored.expiry, Date.now());
+    entry.expiry = live.expiry;
+    if (live.data === undefined) return {};
+    let data: unknown = live.data;
+    const outdated = stored.version < version;
+    if (outdated) {
+      try {
+        data = runMigrations(data, stored.version, version, {
+          migrations,
+          migrate,
+        });
+      } catch (error) {
+        report(new StorageMigrationError(key, stored.version, version, error));
+        if (migrationFallback === "backup") {
+          writeRaw(
+            backupKey(key),
+            parsed.fields
+              ? defaultSerialize(
+                  wrapEnvelope(stored.data, stored.version, stored.expiry)
+                )
+              : raw,
+            report
+          );
+        }
+        return {};
+      }
+    }
+    // Anything but an object, such as a stored null, leaves the defaults
+    if (!isPlainObject(data)) return {};
+    // Persist upgraded data, and data found in the other layout, so this
+    // only happens once
+    const otherLayout =
+      (parsed.fields !== undefined) !== (strategy === "perField");
+    if (outdated || otherLayout) {
+      writeData(data, live.expiry, report);
+    }
+    return parseFields<T>(data, codecs, (field, error) =>
+      report(new StorageParseError(key, error, field))
+    );
+  };
+
+  const validate = (
+    candidate: T,
+    report: ReportError
+  ): { value: T; valid: boolean } => {
+    const { key, schema, defaults } = getConfig();
+    if (!schema) return { value: candidate, valid: true };
+    try {
+      const { value, issues } = validateWithSchema<T>(
+        schema,
+        candidate,
+        defaults as Record<string, unknown>
+      );
+      if (issues) report(new StorageValidationError(key, issues));
+      return { value, valid: !issues };
+    } catch (error) {
+      report(
+        new StorageValidationError(key, [
+          { message: error instanceof Error ? error.message : String(error) },
+        ])
+      );
+      return { value: candidate, valid: false };
+    }
+  };
+
+  const resolve = (persisted: Partial<T>, report: ReportError): T => {
+    const { sanitize, defaults } = getConfig();
+    const sanitized = sanitize ? sanitize(persisted) : persisted;
+    const merged = mergeWithDefaults<T>(sanitized as Partial<T>, defaults);
+    // Only stored data is validated, the defaults are trusted as is
+    if (Object.keys(persisted).length === 0) return merged;
+    return validate(merged, report).value;
+  };
+
+  const readAll = (report: ReportError): Partial<T> => {
+    const { storage, key, encryption } = getConfig();
+    if (isAsyncStorage(storage) || encryption) return {};
+    const raw = readStorage(storage, key, report);
+    return decode(
+      raw,
+      raw ? parse(raw, report) : undefined,
+      (field) => readStorage(storage, fieldKey(key, field), report),
+      report
+    );
+  };
+
+  // Same as `readAll`, on the async path
+  const readAllAsync = async (): Promise<
+    [Partial<T>, LocalStorageStateError | null]
+  > => {
+    const { key } = getConfig();
+    const [raw, readError] = await readStored(key);
+    const [parsed, parseError] = track((report) =>
+      raw ? parse(raw, report) : undefined
+    );
+    const fields = parsed?.fields ?? [];
+    const values = await Promise.all(
+      fields.map((field) => readStored(fieldKey(key, field)))
+    );
+    const fieldError = values.reduce<LocalStorageStateError | null>(
+      (last, [, error]) => error ?? last,
+      null
+    );
+    const [persisted, decodeError] = track((report) =>
+      decode(raw, parsed, (field) => values[fields.indexOf(field)]?.[0], report)
+    );
+    return [persisted, decodeError ?? parseError ?? fieldError ?? readError];
+  };
+
+  // Deferred hydration and the async path both start from the defaults and
+  // apply the stored data after mount.
+  const isDeferred = () => getConfig().hydrate === "deferred" || isAsyncPath();
+
+  const readInitial = (): SyncSnapshot<T> => {
+    const { storage, key } = getConfig();
+    // Only kept in memory: reads during render leave storage untouched
+    touchManagedKey(storage, key, false);
+    if (isDeferred()) {
+      return {
+        state: resolve({}, notifyError),
+        status: "loading",
+        error: null,
+      };
+    }
+    const [state, error] = track((report) => resolve(readAll(report), report));
+    markSynced(state, true);
+    return { state, status: "ready", error };
+  };
+
+  // Server renders never subscribe, so the entry their read went through is
+  // not kept
+  const readServerSnapshot = (): SyncSnapshot<T> => {
+    const snapshot = readInitial();
+    if (typeof window === "undefined") {
+      const { storage, key } = getConfig();
+      releaseSyncEntry(storage, key);
+    }
+    return snapshot;
+  };
+
+  // Size of the stored data in bytes, with its history and backup.
+  // Unknown for async backends.
+  const getStoredSize = (): number | undefined => {
+    const { storage, key } = getConfig();
+    if (isAsyncStorage(storage)) return undefined;
+    const getItem = (targetKey: string) => readStorage(storage, targetKey);
+    const fields = Array.from(currentEntry().fieldLayout.fields.keys());
+    return storedSize(storedKeysOf(key, getItem, fields), getItem);
+  };
+
+  const getSnapshot = () => {
+    const { storage, key } = getConfig();
+    return getSyncSnapshot<T>(storage, key, readInitial);
+  };
+
+  /**
+   * Subscribes to the shared state. Changes made by other consumers of the
+   * key are reported to `onChange` before `onStoreChange` runs.
+   */
+  const subscribe = (onStoreChange: () => void) => {
+    const { storage, key, origin } = getConfig();
+    const disconnect = connectDevtools({
+      key,
+      storage,
+      origin,
+      inspect: () => {
+        const { state, status } = getSnapshot();
+        return {
+          value: state,
+          version: getConfig().version,
+          status,
+          size: getStoredSize(),
+        };
+      },
+    });
+    const unsubscribe = subscribeSyncState(storage, key, (meta) => {
+      if (
+        meta.origin !== origin &&
+        meta.source !== "hydrate" &&
+        meta.source !== "error"
+      ) {
+        getConfig().onChange?.(getSnapshot().state, {
+          source:
+            meta.source === "external" ||
+            meta.source === "merged" ||
+            meta.source === "expired" ||
+            meta.source === "import"
+              ? meta.source
+              : "sync",
+        });
+      }
+      onStoreChange();
+    });
+    const { consumers } = getSyncEntry<T>(storage, key);
+    consumers.add(consumer);
+    return () => {
+      consumers.delete(consumer);
+      disconnect();
+      unsubscribe();
+    };
+  };
+
+  // The part of `state` written to storage. Fields left out stay in memory
+  const persistedPart = (state: T): Partial<T> => {
+    const { persist, partialize } = getConfig();
+    if (partialize) return partialize(state);
+    if (!persist) return state;
+    const { include, exclude = [] } = persist;
+    const part: Partial<T> = {};
+    for (const field of Object.keys(state) as (keyof T)[]) {
+      if (include && !include.includes(field)) continue;
+      if (exclude.includes(field)) continue;
+      part[field] = state[field];
+    }
+    return part;
+  };
+
+  // Copies the fields of `local` that are not persisted onto `remote`, so
+  // changes from other tabs do not overwrite them
+  const withTransient = (local: T, remote: T): T => {
+    const persisted = persistedPart(local);
+    if (persisted === local) return remote;
+    const next: T = { ...remote };
+    for (const field of Object.keys(local) as (keyof T)[]) {
+      if (!(field in persisted)) next[field] = local[field];
+    }
+    return next;
+  };
+
+  // History steps are stored with codecs applied, like the state itself
+  const encodeHistory = (
+    steps: History<T>,
+    report: ReportError
+  ): string | undefined => {
+    const { key, codecs, version, compression = false } = getConfig();
+    const format = (state: T) =>
+      formatFields(persistedPart(state) as T, codecs);
+    try {
+      return compressString(
+        defaultSerialize(
+          wrapEnvelope(
+            { past: steps.past.map(format), future: steps.future.map(format) },
+            version
+          )
+        ),
+        compression
+      );
+    } catch (error) {
+      report(new StorageWriteError(historyKey(key), error));
+      return undefined;
+    }
+  };
+
+  const decodeHistory = (
+    raw: string | null | undefined,
+    report: ReportError
+  ): History<T> => {
+    if (!raw) return emptyHistory();
+    const { key, codecs, version, defaults } = getConfig();
+    try {
+      const stored = unwrapEnvelope(
+        defaultDeserialize<unknown>(decompressString(raw))
+      );
+      // Steps saved with another schema version cannot be replayed
+      if (stored.version !== version) return emptyHistory();
+      const { past, future } = stored.data as Partial<History<unknown>>;
+      if (!Array.isArray(past) || !Array.isArray(future)) {
+        return emptyHistory();
+      }
+      const parse = (state: unknown) =>
+        mergeWithDefaults<T>(
+          parseFields<T>(state as Record<string, unknown>, codecs),
+          defaults
+        );
+      return { past: past.map(parse), future: future.map(parse) };
+    } catch (error) {
+      report(new StorageParseError(historyKey(key), error));
+      return emptyHistory();
+    }
+  };
+
+  /**
+   * Writes formatted data, tagged with its schema version, in the layout of
+   * the configured strategy. With `perField`, only the fields that changed
+   * are written and the manifest is rewritten when the fields or expiry
+   * change.
+   */
+  const writeData = (
+    data: Record<string, unknown>,
+    expiry: Expiry | undefined,
+    report: ReportError
+  ) => {
+    const { key, version, strategy, compression = false } = getConfig();
+    const entry = currentEntry();
+    const layout = entry.fieldLayout;
+    const encode = (value: unknown) =>
+      compressString(defaultSerialize(value), compression);
+    if (strategy === "single") {
+      entry.revision = nextRevision(entry.revision);
+      writeRaw(
+        key,
+        encode(wrapEnvelope(data, version, expiry, entry.revision)),
+        report
+      );
+      // Fields left over from the perField layout
+      for (const field of layout.fields.keys()) {
+        removeRaw(fieldKey(key, field), report);
+      }
+      entry.fieldLayout = emptyFieldLayout();
+      return;
+    }
+    const fields = Object.keys(data).filter(
+      (field) => data[field] !== undefined
+    );
+    // Everything is serialized before anything is written
+    const values = fields.map((field) => encode(data[field]));
+    const manifest = encode(wrapManifest(fields, version, expiry));
+    // A failed write is forgotten so the value is written again next time
+    const write = (targetKey: string, raw: string) => {
+      let failed = false;
+      writeRaw(targetKey, raw, (error) => {
+        failed = true;
+        report(error);
+      });
+      return !failed;
+    };
+    fields.forEach((field, index) => {
+      const raw = values[index] as string;
+      if (layout.fields.get(field) === raw) return;
+      if (write(fieldKey(key, field), raw)) layout.fields.set(field, raw);
+      else layout.fields.delete(field);
+    });
+    for (const field of Array.from(layout.fields.keys())) {
+      if (fields.includes(field)) continue;
+      removeRaw(fieldKey(key, field), report);
+      layout.fields.delete(field);
+    }
+    if (layout.manifest === manifest) return;
+    layout.manifest = write(key, manifest) ? manifest : undefined;
+  };
+
+  // Backends scoped to a tab have nothing to share with other tabs
+  const usesBroadcast = () =>
+    getConfig().syncTransport === "broadcast-channel" &&
+    !getConfig().storage.tabScoped &&
+    isBroadcastChannelSupported();
+
+  // Sends the fields that changed since the state last synced with storage
+  // to other tabs
+  const broadcast = (state: T) => {
+    const { storage, key, version } = getConfig();
+    const entry = currentEntry();
+    const last = entry.synced[entry.synced.length - 1];
+    const prev = (last ? persistedPart(last.state) : {}) as Record<
+      string,
+      unknown
+    >;
+    const next = persistedPart(state) as Record<string, unknown>;
+    const fields: Record<string, unknown> = {};
+    for (const field of Object.keys(next)) {
+      if (isEqualField(field, prev[field], next[field])) continue;
+      fields[field] = next[field];
+    }
+    postChannelMessage(storage, key, {
+      version,
+      revision: entry.revision,
+      expiry: entry.expiry,
+      fields: formatFields(fields as T, getConfig().codecs),
+      removed: Object.keys(prev).filter((field) => !(field in next)),
+    });
+  };
+
+  // Removes the stored data, along with its fields in the perField layout
+  const removeData = (report: ReportError) => {
+    const { key } = getConfig();
+    const entry = currentEntry();
+    for (const field of entry.fieldLayout.fields.keys()) {
+      removeRaw(fieldKey(key, field), report);
+    }
+    entry.fieldLayout = emptyFieldLayout();
+    removeRaw(key, report);
+    entry.revision = undefined;
+    if (usesBroadcast()) broadcast({} as T);
+    markSynced({} as T, true);
+  };
+
+  // What `clear` removes: the data, and the history when it is persisted
+  const removeCleared = (report: ReportError) => {
+    const { key, persistHistory } = getConfig();
+    removeData(report);
+    if (persistHistory) removeRaw(historyKey(key), report);
+  };
+
+  // With "drop-oldest-history", a history the backend has no room for loses
+  // its oldest steps until it fits
+  const writeHistory = (report: ReportError) => {
+    const { key, quotaPolicy } = getConfig();
+    const entry = currentEntry();
+    for (;;) {
+      const steps = encodeHistory(entry.history, report);
+      if (steps === undefined) return;
+      let full = false;
+      writeRaw(historyKey(key), steps, (error) => {
+        full =
+          quotaPolicy === "drop-oldest-history" &&
+          error instanceof StorageQuotaExceededError &&
+          entry.history.past.length > 0;
+        if (!full) report(error);
+      });
+      if (!full) return;
+      entry.history = { ...entry.history, past: entry.history.past.slice(1) };
+    }
+  };
+
+  const writeFull = (next: T, report: ReportError) => {
+    const { key, codecs, persistHistory } = getConfig();
+    const entry = currentEntry();
+    try {
+      const formatted = formatFields(
+        persistedPart(next) as T,
+        codecs,
+        (field, error) =>
+          report(
+            new StorageWriteError(
+              key,
+              error,
+              `Failed to format "${key}.${field}"`
+            )
+          )
+      );
+      writeData(formatted, entry.expiry, report);
+    } catch (error) {
+      report(new StorageWriteError(key, error));
+      return;
+    }
+    if (usesBroadcast()) broadcast(next);
+    markSynced(next, false);
+    if (persistHistory) writeHistory(report);
+  };
+
+  // Restarts the time-to-live of whatever changed between `prev` and `next`
+  const touchTtl = (prev: T, next: T) => {
+    const { ttl } = getConfig();
+    if (ttl === undefined) return;
+    const entry = currentEntry();
+    entry.expiry = touchExpiry(entry.expiry, prev, next, ttl, Date.now());
+  };
+
+  const recordStep = (
+    entry: SyncEntry<T>,
+    source: ChangeSource,
+    prev: T,
+    next: T
+  ) => {
+    const { historyLimit } = getConfig();
+    if (historyLimit === undefined) return;
+    entry.history = recordHistory(
+      entry.history,
+      source,
+      prev,
+      next,
+      historyLimit
+    );
+  };
+
+  /**
+   * Applies the stored data when hydration is deferred. Updates made in the
+   * meantime are replayed on top of it instead of being overwritten by it.
+   */
+  const hydrate = (): Promise<void> => {
+    if (!isDeferred()) return Promise.resolve();
+    const { key } = getConfig();
+    getSnapshot();
+    const entry = currentEntry();
+    if (entry.hydration) return entry.hydration;
+    if (entry.snapshot?.status !== "loading") return Promise.resolve();
+
+    const finishHydration = (
+      base: T,
+      status: HydrationStatus,
+      readError: LocalStorageStateError | null
+    ) => {
+      const { pending, pendingClear } = entry;
+      entry.pending = [];
+      entry.pendingClear = undefined;
+      markSynced(base, true);
+      const start = pendingClear ?? base;
+      const state = pending.reduce((prev, update) => update(prev), start);
+      if (pending.length > 0) touchTtl(start, state);
+      const [, writeError] =
+        pending.length > 0 || pendingClear
+          ? track((report) => {
+              if (pendingClear) removeCleared(report);
+              if (pending.length > 0) writeFull(state, report);
+            })
+          : [undefined, null];
+      publish(
+        entry,
+        { state, status, error: writeError ?? readError },
+        { source: "hydrate", origin: undefined }
+      );
+    };
+
+    if (isAsyncPath()) {
+      entry.hydration = readAllAsync().then(
+        ([persisted, readError]) => {
+          const [state, error] = track((report) => resolve(persisted, report));
+          finishHydration(state, "ready", error ?? readError);
+        },
+        (cause) => {
+          const error = new StorageReadError(key, cause);
+          notifyError(error);
+          finishHydration(getSnapshot().state, "error", error);
+        }
+      );
+    } else {
+      entry.hydration = Promise.resolve();
+      const [state, error] = track((report) =>
+        resolve(readAll(report), report)
+      );
+      finishHydration(state, "ready", error);
+    }
+    return entry.hydration;
+  };
+
+  // The persisted history is loaded once per key
+  const loadHistory = () => {
+    const { storage, key, encryption, persistHistory, historyLimit } =
+      getConfig();
+    if (!persistHistory || historyLimit === undefined) return;
+    const entry = currentEntry();
+    if (entry.historyLoaded) return;
+    entry.historyLoaded = true;
+    const apply = (raw: string | null | undefined) => {
+      const loaded = decodeHistory(raw, notifyError);
+      if (loaded.past.length === 0 && loaded.future.length === 0) return;
+      // Steps recorded while the history was loading come after it
+      const local = entry.history;
+      entry.history = {
+        past: [...loaded.past, ...local.past].slice(-historyLimit),
+        future: local.past.length > 0 ? local.future : loaded.future,
+      };
+      publish(
+        entry,
+        { ...getSnapshot() },
+        { source: "hydrate", origin: undefined }
+      );
+    };
+    if (isAsyncStorage(storage) || encryption) {
+      void readStored(historyKey(key)).then(
+        ([raw]) => apply(raw),
+        (cause) =>
+          publishError(new StorageReadError(historyKey(key), cause), entry)
+      );
+    } else {
+      apply(readStorage(storage, historyKey(key), notifyError));
+    }
+  };
+
+  // Applies a field changed in another tab on top of the state last synced
+  // with storage
+  const applyField = (
+    field: string,
+    raw: string | null | undefined,
+    report: ReportError
+  ): Partial<T> => {
+    const { key, codecs } = getConfig();
+    const entry = currentEntry();
+    const layout = entry.fieldLayout;
+    const last = entry.synced[entry.synced.length - 1];
+    const persisted: Record<string, unknown> = {
+      ...(last?.state ?? getSnapshot().state),
+    };
+    delete persisted[field];
+    layout.fields.delete(field);
+    if (!raw) return persisted as Partial<T>;
+    layout.fields.set(field, raw);
+    try {
+      const value = (
+        parseFields<T>(
+          { [field]: defaultDeserialize<unknown>(decompressString(raw)) },
+          codecs,
+          (_, error) => report(new StorageParseError(key, error, field))
+        ) as Record<string, unknown>
+      )[field];
+      if (value !== undefined) persisted[field] = value;
+    } catch (error) {
+      report(new StorageParseError(key, error, field));
+    }
+    return persisted as Partial<T>;
+  };
+
+  /**
+   * Returns the state an update from another tab conflicts with, or
+   * undefined if it can be applied as is. It conflicts when it was written
+   * without seeing this tab's last write (its revision is not newer), or
+   * when this tab has changes that are not written yet.
+   */
+  const findBase = (
+    remote: Revision | undefined,
+    known: Revision | undefined
+  ): T | undefined => {
+    const entry = currentEntry();
+    const { synced } = entry;
+    const last = synced[synced.length - 1];
+    if (remote && known && remote.counter <= known.counter) {
+      // The other tab wrote on top of the revision before its own
+      const base = synced.find(
+        ({ revision }) => revision?.counter === remote.counter - 1
+      );
+      return (base ?? synced[0] ?? last)?.state;
+    }
+    const unsaved =
+      entry.scheduledWrite !== undefined &&
+      last !== undefined &&
+      last.state !== getSnapshot().state;
+    return unsaved ? last.state : undefined;
+  };
+
+  /**
+   * Applies the state `incoming` written by another tab, whose revision is
+   * now in `entry.revision`. `known` is the revision this tab knew before.
+   */
+  const applyExternal = (
+    incoming: T,
+    known: Revision | undefined,
+    error: LocalStorageStateError | null
+  ) => {
+    const entry = currentEntry();
+    const current = getSnapshot();
+    const remote = withTransient(current.state, incoming);
+    const revision = entry.revision;
+    // Nothing was written since this tab last read or wrote the key
+    if (revision && isSameRevision(revision, known)) return;
+    const base = findBase(revision, known);
+    markSynced(remote, true);
+    if (base === undefined) {
+      recordStep(entry, "external", current.state, remote);
+      publish(
+        entry,
+        {
+          state: remote,
+          status: current.status,
+          error: error ?? current.error,
+        },
+        { source: "external", origin: undefined }
+      );
+      return;
+    }
+    const { resolveConflict } = getConfig();
+    const merged = resolveConflict
+      ? resolveConflict(current.state, remote, base)
+      : mergeByField(current.state, remote, base, isEqualField);
+    // The merged state replaces any held-back write, and is written unless
+    // storage already holds it
+    cancelEntryWrite(entry);
+    const fields = new Set([...Object.keys(merged), ...Object.keys(remote)]);
+    const [, writeError] = Array.from(fields).every((field) =>
+      isEqualField(field, merged[field], remote[field])
+    )
+      ? [undefined, null]
+      : track((report) => writeFull(merged, report));
+    recordStep(entry, "external", current.state, merged);
+    publish(
+      entry,
+      {
+        state: merged,
+        status: current.status,
+        error: writeError ?? error ?? current.error,
+      },
+      { source: "merged", origin: undefined }
+    );
+  };
+
+  // Reads the whole state again after another tab changed it
+  const readExternal = () => {
+    const { key } = getConfig();
+    const entry = currentEntry();
+    const known = entry.revision;
+    if (isAsyncPath()) {
+      void readAllAsync().then(
+        ([persisted, readError]) => {
+          const [state, error] = track((report) => resolve(persisted, report));
+          applyExternal(state, known, error ?? readError);
+        },
+        (cause) => publishError(new StorageReadError(key, cause), entry)
+      );
+    } else {
+      const [state, error] = track((report) =>
+        resolve(readAll(report), report)
+      );
+      applyExternal(state, known, error);
+    }
+  };
+
+  // Fields of the perField layout listed in the last manifest read or
+  // written, and the ones written since
+  const knownFields = (): string[] => {
+    const layout = currentEntry().fieldLayout;
+    const listed = layout.manifest
+      ? parse(layout.manifest, () => undefined)?.fields
+      : undefined;
+    return Array.from(new Set([...(listed ?? []), ...layout.fields.keys()]));
+  };
+
+  const handleStorageEvent = (event: StorageEvent) => {
+    const { storage, key, strategy } = getConfig();
+    // With perField, a change to one field only reads that field again.
+    // Fields are matched exactly: other keys may start with this one.
+    const field =
+      strategy === "perField"
+        ? knownFields().find((name) => fieldKey(key, name) === event.key)
+        : undefined;
+    if (event.key !== key && field === undefined) return;
+    // Every consumer of this key listens, but the event is applied once
+    if (!claimStorageEvent(storage, key, event)) return;
+    if (field === undefined) {
+      readExternal();
+      return;
+    }
+    const entry = currentEntry();
+    const known = entry.revision;
+    const targetKey = fieldKey(key, field);
+    if (isAsyncStorage(storage) || getConfig().encryption) {
+      void readStored(targetKey).then(
+        ([raw, readError]) => {
+          const [state, error] = track((report) =>
+            resolve(applyField(field, raw, report), report)
+          );
+          applyExternal(state, known, error ?? readError);
+        },
+        (cause) => publishError(new StorageReadError(targetKey, cause), entry)
+      );
+    } else {
+      const [state, error] = track((report) =>
+        resolve(
+          applyField(field, readStorage(storage, targetKey, report), report),
+          report
+        )
+      );
+      applyExternal(state, known, error);
+    }
+  };
+
+  // Applies the fields another tab sent, without reading storage
+  const handleMessage = (event: MessageEvent<SyncMessage>) => {
+    const { storage, key, version, codecs } = getConfig();
+    if (!claimStorageEvent(storage, key, event)) return;
+    // Hydration reads storage, which already holds the change
+    if (getSnapshot().status === "loading") return;
+    const message = event.data;
+    // Data of another schema version goes through storage and migrations
+    if (message.version !== version) {
+      readExternal();
+      return;
+    }
+    const entry = currentEntry();
+    const known = entry.revision;
+    // The fields only apply on top of the state the other tab started from.
+    // After a concurrent write, what storage holds is read instead.
+    if (findBase(message.revision, known) !== undefined) {
+      readExternal();
+      return;
+    }
+    const last = entry.synced[entry.synced.length - 1];
+    const persisted: Record<string, unknown> = {
+      ...(last?.state ?? getSnapshot().state),
+    };
+    // Fields written by the other tab are no longer known to this one
+    for (const field of [...message.removed, ...Object.keys(message.fields)]) {
+      delete persisted[field];
+      entry.fieldLayout.fields.delete(field);
+    }
+    entry.fieldLayout.manifest = undefined;
+    entry.revision = message.revision;
+    entry.expiry = message.expiry;
+    const [state, error] = track((report) =>
+      resolve(
+        {
+          ...persisted,
+          ...parseFields<T>(message.fields, codecs, (field, cause) =>
+            report(new StorageParseError(key, cause, field))
+          ),
+        } as Partial<T>,
+        report
+      )
+    );
+    applyExternal(state, known, error);
+  };
+
+  /**
+   * Listens for changes from other tabs, through `storage` events or a
+   * `BroadcastChannel` depending on `syncTransport`, and, when writes are held
+   * back, flushes them before the page goes away. Returns a cleanup function.
+   */
+  const connect = () => {
+    const { storage, key, syncAcrossTabs, writeStrategy } = getConfig();
+    const cleanups: (() => void)[] = [];
+    if (syncAcrossTabs && usesBroadcast()) {
+      cleanups.push(subscribeChannel(storage, key, handleMessage));
+    } else if (syncAcrossTabs && storage.emitsStorageEvents) {
+      window.addEventListener("storage", handleStorageEvent);
+      cleanups.push(() =>
+        window.removeEventListener("storage", handleStorageEvent)
+      );
+    }
+    // Held-back writes must not be lost when the page goes away. Removing
+    // the last subscriber flushes them through the registry.
+    if (writeStrategy !== "immediate") {
+      const flush = () => flushEntryWrite(currentEntry());
+      const onVisibilityChange = () => {
+        if (document.visibilityState === "hidden") flush();
+      };
+      window.addEventListener("pagehide", flush);
+      document.addEventListener("visibilitychange", onVisibilityChange);
+      cleanups.push(() => {
+        window.removeEventListener("pagehide", flush);
+        document.removeEventListener("visibilitychange", onVisibilityChange);
+      });
+    }
+    return () => cleanups.forEach((cleanup) => cleanup());
+  };
+
+  const update = (compute: (prev: T) => T, source: ChangeSource) => {
+    const config = getConfig();
+    const { validateWrites, writeStrategy, origin } = config;
+    const entry = currentEntry();
+    const current = getSnapshot();
+    const next = compute(current.state);
+    if (validateWrites) {
+      const [{ valid }, validationError] = track((report) =>
+        validate(next, report)
+      );
+      if (!valid) {
+        // Rejected updates leave the state and storage untouched
+        publish(
+          entry,
+          { ...current, error: validationError },
+          { source: "error", origin }
+        );
+        return;
+      }
+    }
+    touchTtl(current.state, next);
+    recordStep(entry, source, current.state, next);
+    let error = current.error;
+    if (current.status === "loading") entry.pending.push(compute);
+    else if (writeStrategy === "immediate") {
+      [, error] = track((report) => writeFull(next, report));
+    } else {
+      // Only the latest state is written once the strategy fires
+      scheduleEntryWrite(
+        entry,
+        () =>
+          withConfig(config, () =>
+            writeFull(next, (writeError) => publishError(writeError, entry))
+          ),
+        (run) => scheduleWrite(writeStrategy, run)
+      );
+    }
+    publish(
+      entry,
+      { state: next, status: current.status, error },
+      { source, origin }
+    );
+    getConfig().onChange?.(next, { source });
+  };
+
+  // Drops whatever has outlived its time-to-live. Returns false if nothing
+  // had expired yet.
+  const expire = (): boolean => {
+    const { defaults, origin } = getConfig();
+    const entry = currentEntry();
+    const current = getSnapshot();
+    const live = dropExpired(current.state, entry.expiry, Date.now());
+    if (live.data === current.state) return false;
+    entry.expiry = live.expiry;
+    // A held-back write would bring the expired values back
+    cancelEntryWrite(entry);
+    const next = mergeWithDefaults<T>(
+      (live.data ?? {}) as Partial<T>,
+      defaults
+    );
+    recordStep(entry, "expired", current.state, next);
+    const [, error] = track((report) =>
+      live.data === undefined ? removeData(report) : writeFull(next, report)
+    );
+    publish(
+      entry,
+      { state: next, status: current.status, error: error ?? current.error },
+      { source: "expired", origin }
+    );
+    getConfig().onChange?.(next, { source: "expired" });
+    return true;
+  };
+
+  /**
+   * Arms a timer for the next expiry of the current snapshot. Returns a
+   * function cancelling it.
+   */
+  const watchExpiry = () => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const arm = () => {
+      if (getSnapshot().status === "loading") return;
+      const at = nextExpiry(currentEntry().expiry);
+      if (at === undefined) return;
+      const delay = Math.min(Math.max(at - Date.now(), 0), MAX_TIMER_DELAY);
+      timer = setTimeout(() => {
+        // Re-arm when a long time-to-live was cut short by the timer limit
+        if (!expire()) arm();
+      }, delay);
+    };
+    arm();
+    return () => clearTimeout(timer);
+  };
+
+  // Lets `exportState`, `importState` and `clearNamespace` go through this
+  // consumer, which knows the codecs, migrations and schema of the key
+  const consumer: MountedConsumer = {
+    exportKey: () => {
+      const { codecs, version } = getConfig();
+      const { state, status } = getSnapshot();
+      if (status === "loading") return undefined;
+      return { version, data: formatFields(persistedPart(state) as T, codecs) };
+    },
+    importKey: (imported, { mode, dryRun }) => {
+      const { key, codecs, version, migrate, migrations } = getConfig();
+      if (imported.version > version) {
+        return `Version ${imported.version} is newer than ${version}`;
+      }
+      let data: unknown = imported.data;
+      if (imported.version < version) {
+        try {
+          data = runMigrations(data, imported.version, version, {
+            migrations,
+            migrate,
+          });
+        } catch (error) {
+          return new StorageMigrationError(
+            key,
+            imported.version,
+            version,
+            error
+          ).message;
+        }
+      }
+      if (typeof data !== "object" || data === null || Array.isArray(data)) {
+        return `Migrating "${key}" did not return an object`;
+      }
+      // Unlike stored data, an import is rejected as a whole when any of it
+      // is invalid
+      let failure: LocalStorageStateError | undefined;
+      const report = (error: LocalStorageStateError) => {
+        failure ??= error;
+      };
+      const parsed = parseFields<T>(
+        data as Record<string, unknown>,
+        codecs,
+        (field, error) => report(new StorageParseError(key, error, field))
+      );
+      const next = resolve(
+        mode === "merge" ? { ...getSnapshot().state, ...parsed } : parsed,
+        report
+      );
+      if (failure) return failure.message;
+      if (!dryRun) update(() => next, "import");
+      return undefined;
+    },
+    clear: () => actions.clear(),
+  };
+
+  const actions = {
+    setState: (updater: T | ((prev: T) => T)) => {
+      update(
+        (prev) =>
+          typeof updater === "function"
+            ? (updater as (p: T) => T)(prev)
+            : updater,
+        "set"
+      );
+    },
+    get: <K extends keyof T>(k: K) => getSnapshot().state[k],
+    set: <K extends keyof T>(k: K, value: T[K] | undefined) => {
+      update((prev) => {
+        const next: T = { ...prev };
+        const dict = next as unknown as Record<string, unknown>;
+        if (value === undefined) delete dict[k as string];
+        else dict[k as string] = value as unknown;
+        return next;
+      }, "patch");
+    },
+    patch: (partial: DeepPartial<T>) => {
+      update(
+        (prev) => deepMerge(prev, partial, { arrays: getConfig().arrayMerge }),
+        "patch"
+      );
+    },
+    remove: <K extends keyof T>(...keys: K[]) => {
+      update((prev) => {
+        const next: T = { ...prev };
+        const dict = next as unknown as Record<string, unknown>;
+        for (const k of keys) {
+          delete dict[k as string];
+        }
+        return next;
+      }, "patch");
+    },
+    clear: () => {
+      const { origin, clearTo } = getConfig();
+      const entry = currentEntry();
+      const current = getSnapshot();
+      const next = clearTo === "empty" ? ({} as T) : resolve({}, notifyError);
+      let error = current.error;
+      cancelEntryWrite(entry);
+      entry.expiry = undefined;
+      entry.history = emptyHistory();
+      if (current.status === "loading") {
+        // Removed once loaded, instead of the updates made until now
+        entry.pending = [];
+        entry.pendingClear = next;
+      } else {
+        [, error] = track(removeCleared);
+      }
+      publish(
+        entry,
+        { state: next, status: current.status, error },
+        { source: "clear", origin }
+      );
+      getConfig().onChange?.(next, { source: "clear" });
+    },
+    reset: (keys?: (keyof T)[]) => {
+      update((prev) => {
+        const defaults = resolve({}, notifyError);
+        if (!keys) return defaults;
+        const next: T = { ...prev };
+        const dict = next as unknown as Record<string, unknown>;
+        for (const k of keys) {
+          if (k in defaults) dict[k as string] = defaults[k];
+          else delete dict[k as string];
+        }
+        return next;
+      }, "reset");
+    },
+    flush: () => {
+      flushEntryWrite(currentEntry());
+    },
+    undo: () => {
+      const { past } = currentEntry().history;
+      const target = past[past.length - 1];
+      if (target !== undefined) update(() => target, "undo");
+    },
+    redo: () => {
+      const target = currentEntry().history.future[0];
+      if (target !== undefined) update(() => target, "redo");
+    },
+  };
+
+  return {
+    actions,
+    getSnapshot,
+    readServerSnapshot,
+    subscribe,
+    hydrate,
+    isAsyncPath,
+    loadHistory,
+    connect,
+    watchExpiry,
+    canUndo: () => currentEntry().history.past.length > 0,
+    canRedo: () => currentEntry().history.future.length > 0,
+  };
+}
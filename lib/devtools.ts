@@ -0,0 +1,212 @@
+import { AnyStorageAdapter, HydrationStatus } from "./types";
+import {
+  DevtoolsChange,
+  DevtoolsInstance,
+  setDevtoolsHook,
+} from "./utils/devtoolsHook";
+
+export type DevtoolsOptions = {
+  /** Number of operations kept in the log (default: 100). */
+  limit?: number;
+  /** Also send changes to the Redux DevTools extension when it is installed (default: true). */
+  reduxDevtools?: boolean;
+};
+
+/** A key used by at least one mounted hook or store. */
+export type DevtoolsKeyInfo = {
+  key: string;
+  value: unknown;
+  version: number;
+  status: HydrationStatus;
+  /** Bytes taken in storage, or undefined for async backends. */
+  size: number | undefined;
+  /** Number of hook instances and stores using the key. */
+  instances: number;
+};
+
+/** A state change recorded in the log. */
+export type DevtoolsOperation = {
+  key: string;
+  source: DevtoolsChange["source"];
+  /** Id of the hook instance or store that made the change, for local changes. */
+  instance: number | undefined;
+  /** Top-level fields that changed. */
+  diff: Record<string, { from: unknown; to: unknown }>;
+  timestamp: number;
+  /** The first frames of the call stack outside the library, for local changes. */
+  stack: string | undefined;
+};
+
+export type LocalStorageStateDevtools = {
+  getKeys: () => DevtoolsKeyInfo[];
+  getLog: () => DevtoolsOperation[];
+  clearLog: () => void;
+  /** Calls `listener` with every new operation. Returns an unsubscribe function. */
+  subscribe: (listener: (operation: DevtoolsOperation) => void) => () => void;
+  disable: () => void;
+};
+
+type ReduxDevtoolsConnection = {
+  init: (state: unknown) => void;
+  send: (action: { type: string }, state: unknown) => void;
+};
+
+type ReduxDevtoolsExtension = {
+  connect: (options: { name: string }) => ReduxDevtoolsConnection;
+};
+
+declare global {
+  interface Window {
+    __LOCAL_STORAGE_STATE_DEVTOOLS__?: LocalStorageStateDevtools;
+    __REDUX_DEVTOOLS_EXTENSION__?: ReduxDevtoolsExtension;
+  }
+}
+
+// Frames of the library itself, left out of stack hints
+const LIBRARY_FRAME =
+  /devtools|createStateCore|syncRegistry|useLocalStorageState\.ts|createLocalStorageStore/;
+const STACK_DEPTH = 5;
+
+function stackHint(): string | undefined {
+  const stack = new Error().stack;
+  if (!stack) return undefined;
+  const frames = stack
+    .split("\n")
+    .slice(1)
+    .map((frame) => frame.trim())
+    .filter((frame) => !LIBRARY_FRAME.test(frame))
+    .slice(0, STACK_DEPTH);
+  return frames.length > 0 ? frames.join("\n") : undefined;
+}
+
+function diffFields(prev: unknown, next: unknown): DevtoolsOperation["diff"] {
+  const before = (prev ?? {}) as Record<string, unknown>;
+  const after = (next ?? {}) as Record<string, unknown>;
+  const diff: DevtoolsOperation["diff"] = {};
+  for (const field of new Set([
+    ...Object.keys(before),
+    ...Object.keys(after),
+  ])) {
+    if (Object.is(before[field], after[field])) continue;
+    diff[field] = { from: before[field], to: after[field] };
+  }
+  return diff;
+}
+
+let enabled: LocalStorageStateDevtools | undefined;
+
+/**
+ * Turns on the debug layer: keeps track of the keys used by mounted hooks
+ * and stores, and logs recent state changes with what changed, where they
+ * came from and when. The result is also exposed as
+ * `window.__LOCAL_STORAGE_STATE_DEVTOOLS__` for browser tooling, and changes
+ * are sent to the Redux DevTools extension when it is installed.
+ *
+ * Call it before rendering; hooks mounted earlier are not tracked. Nothing
+ * of the devtools ends up in bundles that do not call it.
+ *
+ * @example
+ * ```ts
+ * if (process.env.NODE_ENV !== "production") enableDevtools();
+ * ```
+ */
+export function enableDevtools(
+  options: DevtoolsOptions = {}
+): LocalStorageStateDevtools {
+  if (enabled) return enabled;
+  const { limit = 100, reduxDevtools = true } = options;
+
+  // Keys are scoped to their backend, like in the sync registry
+  const instances = new Map<
+    AnyStorageAdapter,
+    Map<string, Set<DevtoolsInstance>>
+  >();
+  const ids = new Map<symbol, number>();
+  let nextId = 1;
+  let log: DevtoolsOperation[] = [];
+  const listeners = new Set<(operation: DevtoolsOperation) => void>();
+
+  const getKeys = (): DevtoolsKeyInfo[] => {
+    const keys: DevtoolsKeyInfo[] = [];
+    for (const byKey of instances.values()) {
+      for (const [key, consumers] of byKey) {
+        const [first] = consumers;
+        if (!first) continue;
+        keys.push({ key, ...first.inspect(), instances: consumers.size });
+      }
+    }
+    return keys;
+  };
+
+  const extension =
+    reduxDevtools && typeof window !== "undefined"
+      ? window.__REDUX_DEVTOOLS_EXTENSION__
+      : undefined;
+  const redux = extension?.connect({ name: "useLocalStorageState" });
+  const reduxState = () =>
+    Object.fromEntries(getKeys().map(({ key, value }) => [key, value]));
+  redux?.init(reduxState());
+
+  const devtools: LocalStorageStateDevtools = {
+    getKeys,
+    getLog: () => log.slice(),
+    clearLog: () => {
+      log = [];
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    disable: () => {
+      setDevtoolsHook(undefined);
+      listeners.clear();
+      if (typeof window !== "undefined") {
+        delete window.__LOCAL_STORAGE_STATE_DEVTOOLS__;
+      }
+      enabled = undefined;
+    },
+  };
+
+  setDevtoolsHook({
+    connect: (instance) => {
+      let byKey = instances.get(instance.storage);
+      if (!byKey) {
+        byKey = new Map();
+        instances.set(instance.storage, byKey);
+      }
+      let consumers = byKey.get(instance.key);
+      if (!consumers) {
+        consumers = new Set();
+        byKey.set(instance.key, consumers);
+      }
+      consumers.add(instance);
+      if (!ids.has(instance.origin)) ids.set(instance.origin, nextId++);
+      return () => {
+        consumers?.delete(instance);
+        if (consumers?.size === 0) byKey?.delete(instance.key);
+      };
+    },
+    record: (change) => {
+      const operation: DevtoolsOperation = {
+        key: change.key,
+        source: change.source,
+        instance: change.origin && ids.get(change.origin),
+        diff: diffFields(change.prev, change.next),
+        timestamp: Date.now(),
+        // Only local changes are made from a meaningful call stack
+        stack: change.origin ? stackHint() : undefined,
+      };
+      log = [...log, operation].slice(-limit);
+      for (const listener of Array.from(listeners)) listener(operation);
+      redux?.send({ type: `${change.key}/${change.source}` }, reduxState());
+    },
+  });
+
+  if (typeof window !== "undefined") {
+    window.__LOCAL_STORAGE_STATE_DEVTOOLS__ = devtools;
+  }
+  enabled = devtools;
+  return devtools;
+}
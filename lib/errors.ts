@@ -0,0 +1,154 @@
+import type { StandardSchemaV1 } from "./standardSchema";
+
+export type StorageOperation =
+  | "read"
+  | "write"
+  | "remove"
+  | "parse"
+  | "migrate"
+  | "validate"
+  | "decrypt";
+
+/**
+ * Base class for every failure reported through `onError` and the `error`
+ * field of the hook API.
+ */
+export class LocalStorageStateError extends Error {
+  readonly operation: StorageOperation;
+  readonly key: string;
+  readonly cause: unknown;
+
+  constructor(
+    operation: StorageOperation,
+    key: string,
+    message: string,
+    cause?: unknown
+  ) {
+    const reason =
+      typeof cause === "object" && cause !== null && "message" in cause
+        ? `: ${String(cause.message)}`
+        : "";
+    super(`${message}${reason}`);
+    this.name = "LocalStorageStateError";
+    this.operation = operation;
+    this.key = key;
+    this.cause = cause;
+  }
+}
+
+/** Reading the raw value from the backend failed. */
+export class StorageReadError extends LocalStorageStateError {
+  constructor(key: string, cause?: unknown) {
+    super("read", key, `Failed to read "${key}"`, cause);
+    this.name = "StorageReadError";
+  }
+}
+
+/** Serializing or writing the value to the backend failed. */
+export class StorageWriteError extends LocalStorageStateError {
+  constructor(key: string, cause?: unknown, message?: string) {
+    super("write", key, message ?? `Failed to write "${key}"`, cause);
+    this.name = "StorageWriteError";
+  }
+}
+
+/** The backend rejected a write because it is full. */
+export class StorageQuotaExceededError extends StorageWriteError {
+  constructor(key: string, cause?: unknown) {
+    super(key, cause, `Storage quota exceeded while writing "${key}"`);
+    this.name = "StorageQuotaExceededError";
+  }
+}
+
+/** Removing the value from the backend failed. */
+export class StorageRemoveError extends LocalStorageStateError {
+  constructor(key: string, cause?: unknown) {
+    super("remove", key, `Failed to remove "${key}"`, cause);
+    this.name = "StorageRemoveError";
+  }
+}
+
+/** The stored value, or one of its codec fields, could not be parsed. */
+export class StorageParseError extends LocalStorageStateError {
+  constructor(key: string, cause?: unknown, field?: string) {
+    const target = field === undefined ? `"${key}"` : `"${key}.${field}"`;
+    super("parse", key, `Failed to parse ${target}`, cause);
+    this.name = "StorageParseError";
+  }
+}
+
+/** A migration step threw while upgrading the stored value. */
+export class StorageMigrationError extends LocalStorageStateError {
+  readonly fromVersion: number;
+  readonly toVersion: number;
+
+  constructor(
+    key: string,
+    fromVersion: number,
+    toVersion: number,
+    cause?: unknown
+  ) {
+    super(
+      "migrate",
+      key,
+      `Failed to migrate "${key}" from version ${fromVersion} to ${toVersion}`,
+      cause
+    );
+    this.name = "StorageMigrationError";
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+  }
+}
+
+/**
+ * The stored value could not be decrypted, because none of the keys match or
+ * the data was tampered with.
+ */
+export class StorageDecryptionError extends LocalStorageStateError {
+  constructor(key: string, cause?: unknown) {
+    super("decrypt", key, `Failed to decrypt "${key}"`, cause);
+    this.name = "StorageDecryptionError";
+  }
+}
+
+/** Stored data, or an update when writes are validated, failed the schema. */
+export class StorageValidationError extends LocalStorageStateError {
+  readonly issues: ReadonlyArray<StandardSchemaV1.Issue>;
+
+  constructor(key: string, issues: ReadonlyArray<StandardSchemaV1.Issue>) {
+    const summary = issues
+      .map((issue) => {
+        const path = (issue.path ?? [])
+          .map((segment) =>
+            String(typeof segment === "object" ? segment.key : segment)
+          )
+          .join(".");
+        return path ? `${path}: ${issue.message}` : issue.message;
+      })
+      .join("; ");
+    super("validate", key, `Invalid data for "${key}" (${summary})`);
+    this.name = "StorageValidationError";
+    this.issues = issues;
+  }
+}
+
+export function isQuotaExceededError(error: unknown): boolean {
+  // DOMException is not an Error subclass in every environment
+  if (typeof error !== "object" || error === null) return false;
+  const { name, code } = error as { name?: unknown; code?: unknown };
+  return (
+    name === "QuotaExceededError" ||
+    // Firefox
+    name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+    code === 22
+  );
+}
+
+/**
+ * Wraps a failed write, recognizing quota errors across browsers.
+ */
+export function toWriteError(key: string, cause: unknown): StorageWriteError {
+  return isQuotaExceededError(cause)
+    ? new StorageQuotaExceededError(key, cause)
+    : new StorageWriteError(key, cause);
+}
@@ -0,0 +1,127 @@
+import { localStorageAdapter } from "./storage/webStorage";
+import {
+  AnyStorageAdapter,
+  AsyncStorageAdapter,
+  ExportedKey,
+  StateExport,
+  StorageAdapter,
+} from "./types";
+import { fieldKey } from "./utils/envelope";
+import { isAsyncStorage } from "./utils/isAsyncStorage";
+import { LAST_USED_KEY } from "./utils/storageUsage";
+import {
+  parseStoredState,
+  prefetchStored,
+  readStoredData,
+} from "./utils/storedState";
+import { getMountedKeys, MountedConsumer } from "./utils/syncRegistry";
+
+export type ExportOptions = {
+  /** Backend to export from (default: localStorage). */
+  storage?: AnyStorageAdapter;
+  /** Keys to export. */
+  keys?: string[];
+  /** Exports every key starting with `prefix`. Requires an adapter that implements `keys()`. */
+  prefix?: string;
+};
+
+// Backups and persisted histories are written alongside a state, under
+// `${key}__backup` and `${key}__history`
+const AUXILIARY_KEY = /__(backup|history)$/;
+
+function exportKeys(
+  keys: string[],
+  getItem: (key: string) => string | null | undefined,
+  mounted: Map<string, MountedConsumer>
+): Record<string, ExportedKey> {
+  const now = Date.now();
+  const exported: Record<string, ExportedKey> = {};
+  // Fields of the perField layout are exported with their manifest
+  const fieldKeys = new Set<string>();
+  for (const key of keys) {
+    const stored = parseStoredState(getItem(key));
+    for (const field of stored?.fields ?? []) {
+      fieldKeys.add(fieldKey(key, field));
+    }
+    const fromConsumer = mounted.get(key)?.exportKey();
+    if (fromConsumer) {
+      exported[key] = fromConsumer;
+      continue;
+    }
+    const data =
+      stored &&
+      readStoredData(stored, (field) => getItem(fieldKey(key, field)), now);
+    if (stored && data) exported[key] = { version: stored.version, data };
+  }
+  for (const key of fieldKeys) delete exported[key];
+  return exported;
+}
+
+function keysOf(storage: AnyStorageAdapter) {
+  if (!storage.keys) {
+    throw new TypeError(
+      "exportState with a prefix requires a storage adapter that implements keys()"
+    );
+  }
+  return storage.keys();
+}
+
+function toDocument(keys: Record<string, ExportedKey>): StateExport {
+  return {
+    format: "use-local-storage-reacthook",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    keys,
+  };
+}
+
+/**
+ * Collects persisted state into one JSON-serializable document, with the
+ * schema version of each key, for backups or moving state between devices.
+ * Exports `keys`, every key starting with `prefix`, or by default every key
+ * used by a mounted hook or store. Keys used by a mounted consumer are
+ * exported from its state, so encrypted values are included; the others are
+ * read from storage, skipping encrypted values and expired data.
+ *
+ * @example
+ * ```ts
+ * const backup = JSON.stringify(exportState({ prefix: "app:" }));
+ * ```
+ */
+export function exportState(
+  options?: ExportOptions & { storage?: StorageAdapter }
+): StateExport;
+export function exportState(
+  options: ExportOptions & { storage: AsyncStorageAdapter }
+): Promise<StateExport>;
+export function exportState(
+  options: ExportOptions = {}
+): StateExport | Promise<StateExport> {
+  const { storage = localStorageAdapter, keys, prefix } = options;
+  const mounted = getMountedKeys(storage);
+  // Explicit keys are exported as given, a prefix also matches stored keys
+  const listsKeys = keys === undefined && prefix !== undefined;
+  const select = (stored: string[]) =>
+    keys ??
+    Array.from(new Set([...mounted.keys(), ...stored])).filter(
+      (key) =>
+        key.startsWith(prefix ?? "") &&
+        !AUXILIARY_KEY.test(key) &&
+        key !== LAST_USED_KEY
+    );
+
+  if (isAsyncStorage(storage)) {
+    const listed = listsKeys
+      ? (keysOf(storage) as Promise<string[]>)
+      : Promise.resolve([]);
+    return listed.then(async (stored) => {
+      const selected = select(stored);
+      const getItem = await prefetchStored(storage, selected);
+      return toDocument(exportKeys(selected, getItem, mounted));
+    });
+  }
+  const selected = select(listsKeys ? (keysOf(storage) as string[]) : []);
+  return toDocument(
+    exportKeys(selected, (key) => storage.getItem(key), mounted)
+  );
+}
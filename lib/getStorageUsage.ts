@@ -0,0 +1,92 @@
+import { localStorageAdapter } from "./storage/webStorage";
+import {
+  AnyStorageAdapter,
+  AsyncStorageAdapter,
+  StorageAdapter,
+} from "./types";
+import { backupKey, historyKey } from "./utils/envelope";
+import { isAsyncStorage } from "./utils/isAsyncStorage";
+import { prefetchStored } from "./utils/storedState";
+import {
+  byteSize,
+  getManagedKeys,
+  loadManagedKeys,
+  storedKeysOf,
+  storedSize,
+} from "./utils/storageUsage";
+
+/** Space taken by a key used by a hook or store. */
+export type KeyUsage = {
+  key: string;
+  /** Bytes taken by its data, fields, persisted history and backup. */
+  bytes: number;
+  /** When a hook or store last read or wrote it, in milliseconds since the epoch. */
+  lastUsed: number;
+};
+
+export type StorageUsage = {
+  /** Bytes taken by every key of the backend, or by `keys` when the adapter does not implement `keys()`. */
+  total: number;
+  /** Keys read or written by hooks and stores, on this visit or earlier ones, largest first. */
+  keys: KeyUsage[];
+};
+
+function measure(
+  managed: Map<string, number>,
+  stored: string[] | undefined,
+  getItem: (key: string) => string | null | undefined
+): StorageUsage {
+  const keys = Array.from(managed, ([key, lastUsed]) => ({
+    key,
+    bytes: storedSize(storedKeysOf(key, getItem), getItem),
+    lastUsed,
+  }))
+    .filter(({ bytes }) => bytes > 0)
+    .sort((a, b) => b.bytes - a.bytes);
+  const total = stored
+    ? stored.reduce((size, key) => {
+        const raw = getItem(key);
+        return raw ? size + byteSize(key, raw) : size;
+      }, 0)
+    : keys.reduce((size, { bytes }) => size + bytes, 0);
+  return { total, keys };
+}
+
+/**
+ * Reports the space taken in `storage` (default: localStorage) by the keys
+ * hooks and stores have used, in bytes, counting two bytes per character of
+ * keys and values as browsers do for their quota.
+ *
+ * @example
+ * ```ts
+ * const { total, keys } = getStorageUsage();
+ * console.log(`${(total / 1024).toFixed(1)} KB used`, keys);
+ * ```
+ */
+export function getStorageUsage(storage?: StorageAdapter): StorageUsage;
+export function getStorageUsage(
+  storage: AsyncStorageAdapter
+): Promise<StorageUsage>;
+export function getStorageUsage(
+  storage: AnyStorageAdapter = localStorageAdapter
+): StorageUsage | Promise<StorageUsage> {
+  if (isAsyncStorage(storage)) {
+    const listed = storage.keys ? storage.keys() : Promise.resolve(undefined);
+    return listed.then(async (stored) => {
+      const managed = await loadManagedKeys(storage);
+      const targetKeys = Array.from(managed.keys()).flatMap((key) => [
+        key,
+        historyKey(key),
+        backupKey(key),
+      ]);
+      const getItem = await prefetchStored(
+        storage,
+        Array.from(new Set([...targetKeys, ...(stored ?? [])]))
+      );
+      return measure(managed, stored, getItem);
+    });
+  }
+  return measure(getManagedKeys(storage), storage.keys?.(), (key) =>
+    storage.getItem(key)
+  );
+}
@@ -0,0 +1,183 @@
+import { localStorageAdapter } from "./storage/webStorage";
+import {
+  AnyStorageAdapter,
+  AsyncStorageAdapter,
+  ExportedKey,
+  ImportMode,
+  StorageAdapter,
+} from "./types";
+import { fieldKey, wrapEnvelope } from "./utils/envelope";
+import { isAsyncStorage } from "./utils/isAsyncStorage";
+import { defaultSerialize } from "./utils/serialization";
+import {
+  parseStoredState,
+  prefetchStored,
+  readStoredData,
+} from "./utils/storedState";
+import { getMountedKeys } from "./utils/syncRegistry";
+
+export type ImportOptions = {
+  /** Backend to import into (default: localStorage). */
+  storage?: AnyStorageAdapter;
+  /** Whether stored fields missing from the import are kept (default: "replace"). */
+  mode?: ImportMode;
+  /** Validates and migrates the document without writing anything. */
+  dryRun?: boolean;
+};
+
+export type ImportResult = {
+  /** Keys written, or that would be written in a dry run. */
+  imported: string[];
+  /** Keys left untouched, with the reason. */
+  skipped: { key: string; reason: string }[];
+};
+
+type Write = { key: string; remove: true } | { key: string; value: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readKeys(document: unknown): Record<string, unknown> {
+  if (
+    !isRecord(document) ||
+    document.format !== "use-local-storage-reacthook" ||
+    !isRecord(document.keys)
+  ) {
+    throw new TypeError("importState expects a document from exportState");
+  }
+  if (document.version !== 1) {
+    throw new TypeError(
+      `Unsupported export format version ${String(document.version)}`
+    );
+  }
+  return document.keys;
+}
+
+function readEntry(value: unknown): ExportedKey | undefined {
+  if (
+    !isRecord(value) ||
+    !isRecord(value.data) ||
+    typeof value.version !== "number" ||
+    !Number.isInteger(value.version) ||
+    value.version < 0
+  ) {
+    return undefined;
+  }
+  return { version: value.version, data: value.data };
+}
+
+// Keys no mounted consumer uses are stored with the version they were
+// exported in, and migrated when they are next read
+function planWrites(
+  key: string,
+  imported: ExportedKey,
+  getItem: (key: string) => string | null | undefined,
+  mode: ImportMode
+): Write[] | string {
+  const raw = getItem(key);
+  const stored = parseStoredState(raw);
+  let data = imported.data;
+  if (mode === "merge" && raw) {
+    if (!stored) return "The stored value cannot be read to merge into";
+    if (stored.version !== imported.version) {
+      return `Stored version ${stored.version} differs from ${imported.version}`;
+    }
+    const current = readStoredData(
+      stored,
+      (field) => getItem(fieldKey(key, field)),
+      Date.now()
+    );
+    data = { ...current, ...data };
+  }
+  // Fields of the perField layout would outlive the value they belong to
+  const removed = (stored?.fields ?? []).map(
+    (field): Write => ({ key: fieldKey(key, field), remove: true })
+  );
+  return [
+    ...removed,
+    { key, value: defaultSerialize(wrapEnvelope(data, imported.version)) },
+  ];
+}
+
+/**
+ * Restores a document created by `exportState` into `storage` (default:
+ * localStorage). Keys used by a mounted hook or store are migrated,
+ * validated and applied through it, and reported to `onChange` with the
+ * `"import"` source. The others are written as exported and migrated when
+ * they are next read. Keys missing from the document are left untouched.
+ *
+ * Throws a `TypeError` if `document` is not an export. Keys that cannot be
+ * imported are skipped and listed in the result with the reason, the others
+ * are still imported.
+ *
+ * @example
+ * ```ts
+ * const { skipped } = importState(JSON.parse(backup), { dryRun: true });
+ * if (skipped.length === 0) importState(JSON.parse(backup));
+ * ```
+ */
+export function importState(
+  document: unknown,
+  options?: ImportOptions & { storage?: StorageAdapter }
+): ImportResult;
+export function importState(
+  document: unknown,
+  options: ImportOptions & { storage: AsyncStorageAdapter }
+): Promise<ImportResult>;
+export function importState(
+  document: unknown,
+  options: ImportOptions = {}
+): ImportResult | Promise<ImportResult> {
+  const {
+    storage = localStorageAdapter,
+    mode = "replace",
+    dryRun = false,
+  } = options;
+  const entries = Object.entries(readKeys(document));
+  const mounted = getMountedKeys(storage);
+  const result: ImportResult = { imported: [], skipped: [] };
+
+  // Returns the writes left to make for `key`
+  const importKey = (
+    key: string,
+    value: unknown,
+    getItem: (key: string) => string | null | undefined
+  ): Write[] => {
+    const imported = readEntry(value);
+    const consumer = mounted.get(key);
+    const outcome = !imported
+      ? "Expected an object with a version and data"
+      : consumer
+      ? consumer.importKey(imported, { mode, dryRun }) ?? []
+      : planWrites(key, imported, getItem, mode);
+    if (typeof outcome === "string") {
+      result.skipped.push({ key, reason: outcome });
+      return [];
+    }
+    result.imported.push(key);
+    return dryRun ? [] : outcome;
+  };
+
+  if (isAsyncStorage(storage)) {
+    const unmounted = entries
+      .map(([key]) => key)
+      .filter((key) => !mounted.has(key));
+    return prefetchStored(storage, unmounted).then(async (getItem) => {
+      for (const [key, value] of entries) {
+        for (const write of importKey(key, value, getItem)) {
+          if ("remove" in write) await storage.removeItem(write.key);
+          else await storage.setItem(write.key, write.value);
+        }
+      }
+      return result;
+    });
+  }
+  for (const [key, value] of entries) {
+    for (const write of importKey(key, value, (k) => storage.getItem(k))) {
+      if ("remove" in write) storage.removeItem(write.key);
+      else storage.setItem(write.key, write.value);
+    }
+  }
+  return result;
+}
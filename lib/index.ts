@@ -1,5 +1,64 @@
 // Main hooks
 export { useLocalStorageState } from "./useLocalStorageState";
 
+// Stores
+export { createLocalStorageStore } from "./createLocalStorageStore";
+
+// Namespaces
+export { clearNamespace } from "./clearNamespace";
+export { LocalStorageStateProvider } from "./LocalStorageStateProvider";
+export type { LocalStorageStateProviderProps } from "./LocalStorageStateProvider";
+
+// Codecs
+export { bigintCodec, dateCodec, mapCodec, setCodec } from "./codecs";
+
+// Errors
+export {
+  LocalStorageStateError,
+  StorageDecryptionError,
+  StorageMigrationError,
+  StorageParseError,
+  StorageQuotaExceededError,
+  StorageReadError,
+  StorageRemoveError,
+  StorageValidationError,
+  StorageWriteError,
+} from "./errors";
+export type { StorageOperation } from "./errors";
+
+// Devtools
+export { enableDevtools } from "./devtools";
+export type {
+  DevtoolsKeyInfo,
+  DevtoolsOperation,
+  DevtoolsOptions,
+  LocalStorageStateDevtools,
+} from "./devtools";
+
+// Expiry
+export { purgeExpired } from "./purgeExpired";
+
+// Export and import
+export { exportState } from "./exportState";
+export type { ExportOptions } from "./exportState";
+export { importState } from "./importState";
+export type { ImportOptions, ImportResult } from "./importState";
+
+// Quota
+export { getStorageUsage } from "./getStorageUsage";
+export type { KeyUsage, StorageUsage } from "./getStorageUsage";
+
+// Storage adapters
+export { createCookieStorage } from "./storage/cookieStorage";
+export type { CookieStorageOptions } from "./storage/cookieStorage";
+export { createIndexedDBStorage } from "./storage/indexedDBStorage";
+export type { IndexedDBStorageOptions } from "./storage/indexedDBStorage";
+export { createMemoryStorage } from "./storage/memoryStorage";
+export {
+  localStorageAdapter,
+  sessionStorageAdapter,
+} from "./storage/webStorage";
+
 // Types
 export type * from "./types";
+export type { StandardSchemaV1 } from "./standardSchema";
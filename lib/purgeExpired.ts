@@ -0,0 +1,126 @@
+import { localStorageAdapter } from "./storage/webStorage";
+import {
+  AnyStorageAdapter,
+  AsyncStorageAdapter,
+  StorageAdapter,
+} from "./types";
+import {
+  compressString,
+  decompressString,
+  isCompressed,
+} from "./utils/compression";
+import {
+  fieldKey,
+  readManifest,
+  unwrapEnvelope,
+  wrapEnvelope,
+  wrapManifest,
+} from "./utils/envelope";
+import { dropExpired } from "./utils/expiry";
+import { isAsyncStorage } from "./utils/isAsyncStorage";
+import { defaultDeserialize, defaultSerialize } from "./utils/serialization";
+
+type Purge = { key: string; remove: true } | { key: string; value: string };
+
+function purgeValue(key: string, raw: string | null, now: number): Purge[] {
+  if (!raw) return [];
+  let parsed: unknown;
+  try {
+    parsed = defaultDeserialize<unknown>(decompressString(raw));
+  } catch {
+    // Not written by this library
+    return [];
+  }
+  // Compressed values stay compressed
+  const encode = (value: unknown) =>
+    compressString(
+      defaultSerialize(value),
+      isCompressed(raw) && { threshold: 0 }
+    );
+
+  // The perField layout keeps the expiries in its manifest, and expired
+  // fields are removed from their own keys
+  const manifest = readManifest(parsed);
+  if (manifest) {
+    if (!manifest.expiry) return [];
+    const present = Object.fromEntries(
+      manifest.fields.map((field) => [field, true])
+    );
+    const { data, expiry } = dropExpired(present, manifest.expiry, now);
+    if (data === present) return [];
+    const kept = data === undefined ? [] : Object.keys(data as object);
+    const removed: Purge[] = manifest.fields
+      .filter((field) => !kept.includes(field))
+      .map((field) => ({ key: fieldKey(key, field), remove: true }));
+    return data === undefined
+      ? [...removed, { key, remove: true }]
+      : [
+          ...removed,
+          { key, value: encode(wrapManifest(kept, manifest.version, expiry)) },
+        ];
+  }
+
+  const stored = unwrapEnvelope(parsed);
+  if (!stored.expiry) return [];
+  const { data, expiry } = dropExpired(stored.data, stored.expiry, now);
+  if (data === undefined) return [{ key, remove: true }];
+  if (data === stored.data) return [];
+  return [{ key, value: encode(wrapEnvelope(data, stored.version, expiry)) }];
+}
+
+/**
+ * Removes expired state stored under `keys`, as `purgeExpired` does for
+ * every key. Returns the keys that were changed.
+ */
+export function purgeKeys(
+  storage: StorageAdapter,
+  keys: string[],
+  now: number
+): string[] {
+  const changed: string[] = [];
+  for (const key of keys) {
+    for (const purge of purgeValue(key, storage.getItem(key), now)) {
+      if ("remove" in purge) storage.removeItem(purge.key);
+      else storage.setItem(purge.key, purge.value);
+      changed.push(purge.key);
+    }
+  }
+  return changed;
+}
+
+function keysOf(storage: AnyStorageAdapter) {
+  if (!storage.keys) {
+    throw new TypeError(
+      "purgeExpired requires a storage adapter that implements keys()"
+    );
+  }
+  return storage.keys();
+}
+
+/**
+ * Removes expired state from `storage` (default: localStorage): keys whose
+ * time-to-live has run out are deleted and expired fields are stripped from
+ * the others. Call it once at app startup so stale entries do not linger
+ * until their key is next read. Returns the keys that were changed.
+ */
+export function purgeExpired(storage?: StorageAdapter): string[];
+export function purgeExpired(storage: AsyncStorageAdapter): Promise<string[]>;
+export function purgeExpired(
+  storage: AnyStorageAdapter = localStorageAdapter
+): string[] | Promise<string[]> {
+  const now = Date.now();
+  if (isAsyncStorage(storage)) {
+    return (keysOf(storage) as Promise<string[]>).then(async (keys) => {
+      const changed: string[] = [];
+      for (const key of keys) {
+        for (const purge of purgeValue(key, await storage.getItem(key), now)) {
+          if ("remove" in purge) await storage.removeItem(purge.key);
+          else await storage.setItem(purge.key, purge.value);
+          changed.push(purge.key);
+        }
+      }
+      return changed;
+    });
+  }
+  return purgeKeys(storage, keysOf(storage) as string[], now);
+}
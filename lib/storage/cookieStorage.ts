@@ -0,0 +1,73 @@
+import { StorageAdapter } from "../types";
+
+export type CookieStorageOptions = {
+  /** Cookie path (default: "/"). */
+  path?: string;
+  domain?: string;
+  /** Lifetime in seconds (default: one year). */
+  maxAge?: number;
+  sameSite?: "strict" | "lax" | "none";
+  secure?: boolean;
+};
+
+function readCookies(): Map<string, string> {
+  const cookies = new Map<string, string>();
+  if (typeof document === "undefined" || !document.cookie) return cookies;
+  for (const part of document.cookie.split("; ")) {
+    const eq = part.indexOf("=");
+    if (eq === -1) continue;
+    try {
+      cookies.set(
+        decodeURIComponent(part.slice(0, eq)),
+        decodeURIComponent(part.slice(eq + 1))
+      );
+    } catch {
+      // Ignore cookies that were not written by this adapter
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Creates an adapter that stores each key in its own cookie, so the state is
+ * also visible to the server. Browsers limit cookies to about 4 KB each.
+ */
+export function createCookieStorage(
+  options: CookieStorageOptions = {}
+): StorageAdapter {
+  const {
+    path = "/",
+    domain,
+    maxAge = 60 * 60 * 24 * 365,
+    sameSite = "lax",
+    secure = false,
+  } = options;
+
+  const attributes = (age: number) =>
+    [
+      `path=${path}`,
+      domain ? `domain=${domain}` : "",
+      `max-age=${age}`,
+      `samesite=${sameSite}`,
+      secure ? "secure" : "",
+    ]
+      .filter(Boolean)
+      .join("; ");
+
+  return {
+    getItem: (key) => readCookies().get(key) ?? null,
+    setItem: (key, value) => {
+      if (typeof document === "undefined") return;
+      document.cookie = `${encodeURIComponent(key)}=${encodeURIComponent(
+        value
+      )}; ${attributes(maxAge)}`;
+    },
+    removeItem: (key) => {
+      if (typeof document === "undefined") return;
+      document.cookie = `${encodeURIComponent(key)}=; ${attributes(0)}`;
+    },
+    keys: () => Array.from(readCookies().keys()),
+    emitsStorageEvents: false,
+    name: `cookie:${domain ?? ""}${path}`,
+  };
+}
@@ -0,0 +1,75 @@
+import { AsyncStorageAdapter } from "../types";
+
+export type IndexedDBStorageOptions = {
+  /** Database name (default: "use-local-storage-state"). */
+  dbName?: string;
+  /** Object store name (default: "keyval"). */
+  storeName?: string;
+};
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+/**
+ * Creates an async adapter backed by an IndexedDB object store. Suited to
+ * state that does not fit in the ~5 MB localStorage quota. The database is
+ * opened lazily on first use.
+ */
+export function createIndexedDBStorage(
+  options: IndexedDBStorageOptions = {}
+): AsyncStorageAdapter {
+  const { dbName = "use-local-storage-state", storeName = "keyval" } = options;
+  let db: Promise<IDBDatabase> | undefined;
+
+  const open = () => {
+    if (!db) {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      db = promisify(request);
+      // Allow a later call to retry if opening failed
+      db.catch(() => {
+        db = undefined;
+      });
+    }
+    return db;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const database = await open();
+    const store = database.transaction(storeName, mode).objectStore(storeName);
+    return promisify(run(store));
+  };
+
+  return {
+    getItem: async (key) => {
+      const value = await withStore(
+        "readonly",
+        (store) => store.get(key) as IDBRequest<unknown>
+      );
+      return typeof value === "string" ? value : null;
+    },
+    setItem: async (key, value) => {
+      await withStore("readwrite", (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await withStore("readwrite", (store) => store.delete(key));
+    },
+    keys: async () => {
+      const keys = await withStore("readonly", (store) => store.getAllKeys());
+      return keys.filter((key): key is string => typeof key === "string");
+    },
+    emitsStorageEvents: false,
+    name: `indexedDB:${dbName}/${storeName}`,
+    async: true,
+  };
+}
@@ -0,0 +1,25 @@
+import { StorageAdapter } from "../types";
+
+/**
+ * Creates an adapter that keeps values in memory for the lifetime of the page.
+ * Useful in tests and as a fallback where Web Storage is unavailable
+ * (e.g. some private browsing modes).
+ */
+export function createMemoryStorage(
+  initial: Record<string, string> = {}
+): StorageAdapter {
+  const store = new Map<string, string>(Object.entries(initial));
+  return {
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, value) => {
+      store.set(key, value);
+    },
+    removeItem: (key) => {
+      store.delete(key);
+    },
+    keys: () => Array.from(store.keys()),
+    emitsStorageEvents: false,
+    name: "memory",
+    tabScoped: true,
+  };
+}
@@ -0,0 +1,54 @@
+import { StorageAdapter } from "../types";
+
+function createWebStorageAdapter(
+  getStorage: () => Storage,
+  name: string,
+  tabScoped: boolean
+): StorageAdapter {
+  // The Storage object is looked up on every call so that it can be swapped
+  // out in tests. There is nothing to persist to during server rendering.
+  const isServer = () => typeof window === "undefined";
+  return {
+    getItem: (key) => (isServer() ? null : getStorage().getItem(key)),
+    setItem: (key, value) => {
+      if (!isServer()) getStorage().setItem(key, value);
+    },
+    removeItem: (key) => {
+      if (!isServer()) getStorage().removeItem(key);
+    },
+    keys: () => {
+      if (isServer()) return [];
+      const storage = getStorage();
+      const keys: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key !== null) keys.push(key);
+      }
+      return keys;
+    },
+    // Only localStorage is shared with other tabs, and notifies them
+    emitsStorageEvents: !tabScoped,
+    name,
+    tabScoped,
+  };
+}
+
+/**
+ * Adapter for `window.localStorage`, the default backend. Changes made in
+ * other tabs are picked up through the `storage` event.
+ */
+export const localStorageAdapter: StorageAdapter = createWebStorageAdapter(
+  () => window.localStorage,
+  "localStorage",
+  false
+);
+
+/**
+ * Adapter for `window.sessionStorage`. Data is scoped to the tab, so there is
+ * nothing to sync across tabs.
+ */
+export const sessionStorageAdapter: StorageAdapter = createWebStorageAdapter(
+  () => window.sessionStorage,
+  "sessionStorage",
+  true
+);
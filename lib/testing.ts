@@ -0,0 +1,365 @@
+import * as React from "react";
+import { StorageAdapter } from "./types";
+import {
+  channelName,
+  isBroadcastChannelSupported,
+  SyncMessage,
+} from "./utils/broadcast";
+import { fieldKey, wrapEnvelope } from "./utils/envelope";
+import { Revision } from "./utils/revision";
+import { defaultSerialize } from "./utils/serialization";
+import { byteSize } from "./utils/storageUsage";
+import { parseStoredState, readStoredData } from "./utils/storedState";
+
+/**
+ * A failure a `MockStorage` can be made to produce:
+ * - `"quota"`: writes throw a `QuotaExceededError`, as when storage is full.
+ * - `"unavailable"`: every operation throws a `SecurityError`, as when
+ *   storage is disabled or blocked.
+ * - `"corrupted"`: reads return a value that cannot be parsed.
+ */
+export type StorageFailure = "quota" | "unavailable" | "corrupted";
+
+export type FailureOptions = {
+  /** Keys the failure applies to (default: every key). */
+  keys?: string[];
+  /** Number of operations that fail before storage works again (default: until `clearFailures`). */
+  times?: number;
+};
+
+/**
+ * In-memory storage that can be installed as `window.localStorage` or
+ * passed as the `storage` option, and made to fail on demand.
+ */
+export type MockStorage = Storage &
+  StorageAdapter & {
+    injectFailure: (failure: StorageFailure, options?: FailureOptions) => void;
+    clearFailures: () => void;
+    /** Makes writes fail once the values stored would take more than `bytes` (default: no limit). */
+    setQuota: (bytes: number | undefined) => void;
+    /** Every stored value, by key. */
+    getAll: () => Record<string, string>;
+  };
+
+export type TabWriteOptions = {
+  /**
+   * Storage the other tab writes to (default: `window.localStorage`). A
+   * `MockStorage` passed as the `storage` option of hooks can be given too.
+   */
+  storage?: Storage;
+  /** Schema version the other tab writes with (default: 0). */
+  version?: number;
+};
+
+export type SeedOptions = {
+  /** Backend to write to (default: `window.localStorage`). */
+  storage?: Pick<StorageAdapter, "setItem">;
+  /** Schema version the state is stored with (default: 0). */
+  version?: number;
+};
+
+/** The timer controls of Vitest's `vi` and Jest's `jest`. */
+export type FakeTimers = {
+  advanceTimersByTime: (ms: number) => unknown;
+  advanceTimersByTimeAsync?: (ms: number) => Promise<unknown>;
+};
+
+/** Value returned by reads while a `"corrupted"` failure is active. */
+export const CORRUPTED_VALUE = "{corrupted";
+
+// React exports act from "react" since 18.3
+type Act = (callback: () => Promise<void>) => Promise<void>;
+
+// Writes made through simulateTabWrite come from this tab id
+const SIMULATED_TAB = "simulated-tab";
+
+type ActiveFailure = {
+  kind: StorageFailure;
+  keys: string[] | undefined;
+  remaining: number;
+};
+
+const FAILURE_ERRORS: Record<"quota" | "unavailable", [string, string]> = {
+  quota: ["The quota has been exceeded", "QuotaExceededError"],
+  unavailable: ["Access to storage is denied", "SecurityError"],
+};
+
+/**
+ * Creates an in-memory `MockStorage` holding `initial`. It emits no
+ * `storage` events of its own; use `simulateTabWrite` for changes made in
+ * another tab.
+ *
+ * @example
+ * ```ts
+ * const storage = createMockStorage();
+ * storage.injectFailure("quota", { keys: ["prefs"], times: 1 });
+ * const { result } = renderHook(() =>
+ *   useLocalStorageState({}, { key: "prefs", storage })
+ * );
+ * ```
+ */
+export function createMockStorage(
+  initial: Record<string, string> = {}
+): MockStorage {
+  const store = new Map<string, string>(Object.entries(initial));
+  let failures: ActiveFailure[] = [];
+  let quota: number | undefined;
+
+  // Uses up the first active failure of `kinds` that applies to `key`
+  const takeFailure = (kinds: StorageFailure[], key?: string) => {
+    const failure = failures.find(
+      ({ kind, keys }) =>
+        kinds.includes(kind) &&
+        (keys === undefined || (key !== undefined && keys.includes(key)))
+    );
+    if (!failure) return undefined;
+    failure.remaining -= 1;
+    if (failure.remaining <= 0) {
+      failures = failures.filter((active) => active !== failure);
+    }
+    return failure.kind;
+  };
+  const throwFailure = (kinds: ("quota" | "unavailable")[], key?: string) => {
+    const kind = takeFailure(kinds, key) as "quota" | "unavailable" | undefined;
+    if (!kind) return;
+    const [message, name] = FAILURE_ERRORS[kind];
+    throw new DOMException(message, name);
+  };
+
+  const storage: MockStorage = {
+    getItem: (key) => {
+      throwFailure(["unavailable"], key);
+      if (takeFailure(["corrupted"], key)) return CORRUPTED_VALUE;
+      return store.get(key) ?? null;
+    },
+    setItem: (key, value) => {
+      throwFailure(["unavailable", "quota"], key);
+      if (quota !== undefined) {
+        let used = byteSize(key, String(value));
+        for (const [storedKey, raw] of store) {
+          if (storedKey !== key) used += byteSize(storedKey, raw);
+        }
+        if (used > quota) {
+          const [message, name] = FAILURE_ERRORS.quota;
+          throw new DOMException(message, name);
+        }
+      }
+      store.set(key, String(value));
+    },
+    removeItem: (key) => {
+      throwFailure(["unavailable"], key);
+      store.delete(key);
+    },
+    clear: () => {
+      throwFailure(["unavailable"]);
+      store.clear();
+    },
+    key: (index) => {
+      throwFailure(["unavailable"]);
+      return Array.from(store.keys())[index] ?? null;
+    },
+    get length() {
+      return store.size;
+    },
+    keys: () => {
+      throwFailure(["unavailable"]);
+      return Array.from(store.keys());
+    },
+    emitsStorageEvents: true,
+    injectFailure: (kind, options = {}) => {
+      failures.push({
+        kind,
+        keys: options.keys,
+        remaining: options.times ?? Infinity,
+      });
+    },
+    clearFailures: () => {
+      failures = [];
+    },
+    setQuota: (bytes) => {
+      quota = bytes;
+    },
+    getAll: () => Object.fromEntries(store),
+  };
+  return storage;
+}
+
+/**
+ * Replaces `window.localStorage` (or `window.sessionStorage`) with a new
+ * `MockStorage` holding `initial`, and returns it. Call it before rendering,
+ * typically in `beforeEach`.
+ *
+ * @example
+ * ```ts
+ * let storage: MockStorage;
+ * beforeEach(() => {
+ *   storage = installMockStorage();
+ * });
+ * ```
+ */
+export function installMockStorage(
+  initial: Record<string, string> = {},
+  target: "localStorage" | "sessionStorage" = "localStorage"
+): MockStorage {
+  const storage = createMockStorage(initial);
+  // A property already replaced as non-configurable can only be reassigned
+  const current = Object.getOwnPropertyDescriptor(window, target);
+  Object.defineProperty(window, target, {
+    value: storage,
+    configurable: current?.configurable ?? true,
+    writable: true,
+  });
+  return storage;
+}
+
+/**
+ * Stores `data` under `key` with schema `version`, as this library would,
+ * so that hooks and stores mounted afterwards load it and migrate it from
+ * that version. Codecs, compression and encryption are not applied.
+ *
+ * @example
+ * ```ts
+ * seedState("prefs", { darkMode: true }, { version: 1 });
+ * ```
+ */
+export function seedState(
+  key: string,
+  data: Record<string, unknown>,
+  options: SeedOptions = {}
+): void {
+  const { storage = window.localStorage, version = 0 } = options;
+  storage.setItem(key, defaultSerialize(wrapEnvelope(data, version)));
+}
+
+/**
+ * Reads the state stored under `key`, with its schema version. Returns
+ * undefined when there is none, it has expired, or it cannot be read
+ * without the options of its key (encrypted).
+ */
+export function readState(
+  key: string,
+  storage: Pick<StorageAdapter, "getItem"> = window.localStorage
+): { version: number; data: Record<string, unknown> } | undefined {
+  const stored = parseStoredState(storage.getItem(key));
+  const data =
+    stored &&
+    readStoredData(
+      stored,
+      (field) => storage.getItem(fieldKey(key, field)),
+      Date.now()
+    );
+  return stored && data && { version: stored.version, data };
+}
+
+// Name of the backend hooks using `storage` broadcast their changes in
+function backendName(storage: Storage & Partial<StorageAdapter>): string {
+  if (storage === window.localStorage) return "localStorage";
+  return storage.name ?? "custom";
+}
+
+/**
+ * Writes `data` under `key` as another tab would, or removes it when `data`
+ * is null, and notifies this tab the way a browser would: with a `storage`
+ * event, and a message for hooks using the `"broadcast-channel"` transport.
+ * `data` is taken as stored, after codecs.
+ *
+ * Storage events are dispatched synchronously; messages are delivered
+ * asynchronously, so wait for their effect (e.g. with `waitFor`).
+ *
+ * @example
+ * ```ts
+ * act(() => simulateTabWrite("prefs", { theme: "dark" }));
+ * expect(result.current[0].theme).toBe("dark");
+ * ```
+ */
+export function simulateTabWrite(
+  key: string,
+  data: Record<string, unknown> | null,
+  options: TabWriteOptions = {}
+): void {
+  const { storage = window.localStorage, version = 0 } = options;
+  const oldValue = storage.getItem(key);
+  const previous = parseStoredState(oldValue);
+  const previousData =
+    (previous &&
+      readStoredData(
+        previous,
+        (field) => storage.getItem(fieldKey(key, field)),
+        Date.now()
+      )) ??
+    {};
+  const revision: Revision = {
+    counter: (previous?.revision?.counter ?? 0) + 1,
+    tab: SIMULATED_TAB,
+  };
+  const newValue =
+    data === null
+      ? null
+      : defaultSerialize(wrapEnvelope(data, version, undefined, revision));
+
+  // The other tab writes the plain layout, leaving no fields behind
+  for (const field of previous?.fields ?? []) {
+    storage.removeItem(fieldKey(key, field));
+  }
+  if (newValue === null) storage.removeItem(key);
+  else storage.setItem(key, newValue);
+
+  window.dispatchEvent(
+    new StorageEvent("storage", {
+      key,
+      oldValue,
+      newValue,
+      url: window.location.href,
+    })
+  );
+  // Other tabs never see what a tab writes to sessionStorage
+  if (isBroadcastChannelSupported() && storage !== window.sessionStorage) {
+    const message: SyncMessage = {
+      tab: SIMULATED_TAB,
+      version,
+      revision: data === null ? undefined : revision,
+      expiry: undefined,
+      fields: data ?? {},
+      removed: Object.keys(previousData).filter(
+        (field) => data === null || !(field in data)
+      ),
+    };
+    const channel = new BroadcastChannel(
+      channelName(backendName(storage), key)
+    );
+    channel.postMessage(message);
+    channel.close();
+  }
+}
+
+/**
+ * Advances fake timers by `ms` inside `act`: debounced and idle writes that
+ * are due run, writes they start on async backends complete, and
+ * time-to-live data that is due expires, with every update rendered by the
+ * time the returned promise resolves. Pass Vitest's `vi` or Jest's `jest`
+ * after enabling fake timers. React versions before 18.3 have no `act` in
+ * `react`: wrap the call in the one from `react-dom/test-utils` there.
+ *
+ * @example
+ * ```ts
+ * vi.useFakeTimers();
+ * // ...
+ * await advanceTime(vi, 60_000);
+ * ```
+ */
+export async function advanceTime(
+  timers: FakeTimers,
+  ms: number
+): Promise<void> {
+  const advance = async () => {
+    // The async variant also settles the promises of writes between timers
+    if (timers.advanceTimersByTimeAsync) {
+      await timers.advanceTimersByTimeAsync(ms);
+    } else {
+      timers.advanceTimersByTime(ms);
+      await Promise.resolve();
+    }
+  };
+  const { act } = React as { act?: Act };
+  await (act ? act(advance) : advance());
+}
@@ -1,4 +1,6 @@
 import * as React from "react";
+import type { LocalStorageStateError, StorageOperation } from "./errors";
+import type { StandardSchemaV1 } from "./standardSchema";
 
 export type DeepPartial<T> = {
   [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
@@ -9,16 +11,227 @@ export type Codec<V> = {
   format: (value: V) => string;
 };
 
-export type CodecsMap<T> = Partial<{ [K in keyof T]: Codec<NonNullable<T[K]>> }>;
+export type CodecsMap<T> = Partial<{
+  [K in keyof T]: Codec<NonNullable<T[K]>>;
+}>;
+
+/**
+ * How `patch` combines an array in the patch with the current array:
+ * `"replace"` (default) keeps the patch value, `"concat"` appends it, or a
+ * custom function returns the merged array.
+ */
+export type ArrayMergeStrategy =
+  | "replace"
+  | "concat"
+  | ((current: unknown[], patch: unknown[]) => unknown[]);
+
+/**
+ * Ordered migration steps keyed by the version they upgrade *to*:
+ * `migrations[2]` receives version 1 data and returns version 2 data.
+ */
+export type Migrations = Record<number, (stored: unknown) => unknown>;
+
+export type MigrationFallback = "defaults" | "backup";
+
+/**
+ * What `clear` leaves in state: the resolved defaults, or an empty object
+ * (the behavior of earlier versions).
+ */
+export type ClearTarget = "defaults" | "empty";
+
+/**
+ * A synchronous key/value backend the hook persists to. Built-in adapters
+ * cover localStorage, sessionStorage, an in-memory map and cookies.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  /** Lists every stored key. Needed by `purgeExpired`. */
+  keys?(): string[];
+  /**
+   * Whether writes from other tabs raise `window` `storage` events for this
+   * backend. Cross-tab sync is turned off when false.
+   */
+  readonly emitsStorageEvents: boolean;
+  /**
+   * Identifies the backend across tabs, so the `"broadcast-channel"`
+   * transport only syncs keys stored in the same one (default: "custom").
+   */
+  readonly name?: string;
+  /** Whether the data is only visible to the current tab. Such backends are never synced across tabs. */
+  readonly tabScoped?: boolean;
+  readonly async?: false;
+}
+
+/**
+ * A backend whose operations return promises, such as IndexedDB. The hook
+ * renders with the defaults until the stored data has loaded.
+ */
+export interface AsyncStorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys?(): Promise<string[]>;
+  readonly emitsStorageEvents: boolean;
+  readonly name?: string;
+  readonly tabScoped?: boolean;
+  readonly async: true;
+}
+
+export type AnyStorageAdapter = StorageAdapter | AsyncStorageAdapter;
+
+/**
+ * Whether the stored data has been applied to the state. Always `"ready"` for
+ * synchronous backends, unless hydration is deferred.
+ */
+export type HydrationStatus = "loading" | "ready" | "error";
+
+/**
+ * `"immediate"` reads storage during the first render. `"deferred"` renders
+ * the defaults first (on the server and while hydrating on the client) and
+ * applies the stored data in an effect after mount.
+ */
+export type HydrationMode = "immediate" | "deferred";
+
+/**
+ * What caused a state change: a local `set`/`patch`, an update from another
+ * tab (`"external"`), a change made by another hook instance with the same
+ * key in this tab (`"sync"`), an update from another tab merged with local
+ * changes it had not seen (`"merged"`), a time-to-live running out
+ * (`"expired"`), stepping through the history (`"undo"`/`"redo"`),
+ * `clear`/`reset`, `importState` (`"import"`), or switching the namespace of
+ * a `LocalStorageStateProvider` (`"namespace"`).
+ */
+export type ChangeSource =
+  | "set"
+  | "patch"
+  | "external"
+  | "merged"
+  | "sync"
+  | "expired"
+  | "undo"
+  | "redo"
+  | "clear"
+  | "reset"
+  | "import"
+  | "namespace";
+
+/**
+ * How long persisted data lives, in milliseconds. A number applies to the
+ * whole object and restarts on every write. `fields` gives individual fields
+ * their own time-to-live, restarting when that field changes. Expired data
+ * falls back to the defaults.
+ */
+export type TimeToLive<T> =
+  | number
+  | { all?: number; fields?: { [K in keyof T]?: number } };
+
+/**
+ * When updates are written to storage: right away (`"immediate"`), once
+ * updates have stopped for `debounceMs`, or when the browser is idle. The
+ * state itself always updates immediately.
+ */
+export type WriteStrategy = "immediate" | "idle" | { debounceMs: number };
+
+/**
+ * Undo/redo history. `limit` caps the number of undo steps (default: 100).
+ * With `persist`, the history is saved under `${key}__history` and restored
+ * after a reload.
+ */
+export type HistoryOptions = {
+  limit?: number;
+  persist?: boolean;
+};
+
+/**
+ * Which fields are written to storage: only those in `include`, and none of
+ * those in `exclude`. The others live in memory only.
+ */
+export type PersistOptions<T> = {
+  include?: (keyof T)[];
+  exclude?: (keyof T)[];
+};
+
+/**
+ * AES-GCM encryption of the stored value. New writes use `key`; values
+ * encrypted with one of `previousKeys` are still read and re-encrypted with
+ * `key`, which allows rotating keys.
+ */
+export type EncryptionOptions = {
+  key: CryptoKey | Promise<CryptoKey>;
+  previousKeys?: (CryptoKey | Promise<CryptoKey>)[];
+};
+
+/**
+ * Compresses the stored value with an LZ-string-style encoding that is safe
+ * for UTF-16 storage. Values shorter than `threshold` characters (default:
+ * 1024) are stored as plain JSON.
+ */
+export type CompressionOptions = boolean | { threshold?: number };
+
+/**
+ * How the state is laid out in storage: the whole object under `key`
+ * (`"single"`), or each top-level property under `${key}:${field}` with a
+ * manifest under `key` (`"perField"`), so only the properties that changed
+ * are written.
+ */
+export type StorageStrategy = "single" | "perField";
+
+/**
+ * How changes reach other tabs: through the `storage` events of
+ * localStorage, or through a `BroadcastChannel` carrying the changed fields,
+ * which also works for other backends. Falls back to `storage` events where
+ * `BroadcastChannel` is not available.
+ */
+export type SyncTransport = "storage-event" | "broadcast-channel";
+
+/**
+ * What a write does when the backend is full, before retrying:
+ * - `"evict-lru"`: removes the keys used the longest time ago by hooks and
+ *   stores that are no longer mounted, one at a time.
+ * - `"evict-expired"`: removes expired state from the backend.
+ * - `"drop-oldest-history"`: drops the oldest undo steps of the key's
+ *   persisted history.
+ * - `"fail"`: nothing; the write fails with a `StorageQuotaExceededError`.
+ */
+export type QuotaPolicy =
+  | "evict-lru"
+  | "evict-expired"
+  | "drop-oldest-history"
+  | "fail";
 
 export interface LocalStorageStateOptions<T extends Record<string, unknown>> {
   key: string;
+  storage?: AnyStorageAdapter;
   codecs?: CodecsMap<T>;
   sanitize?: (draft: DeepPartial<T>) => DeepPartial<T>;
-  onChange?: (next: T, meta: { source: "set" | "patch" | "external" }) => void;
+  onChange?: (next: T, meta: { source: ChangeSource }) => void;
+  onError?: (
+    error: LocalStorageStateError,
+    meta: { operation: StorageOperation; key: string }
+  ) => void;
   syncAcrossTabs?: boolean;
+  syncTransport?: SyncTransport;
   version?: number;
-  migrate?: (stored: unknown, version: number) => Partial<T>;
+  migrate?: (stored: unknown, fromVersion: number) => Partial<T>;
+  migrations?: Migrations;
+  migrationFallback?: MigrationFallback;
+  clearTo?: ClearTarget;
+  arrayMerge?: ArrayMergeStrategy;
+  hydrate?: HydrationMode;
+  schema?: StandardSchemaV1<unknown, T>;
+  validateWrites?: boolean;
+  writeStrategy?: WriteStrategy;
+  ttl?: TimeToLive<T>;
+  history?: HistoryOptions;
+  encryption?: EncryptionOptions;
+  compression?: CompressionOptions;
+  strategy?: StorageStrategy;
+  resolveConflict?: (local: T, remote: T, base: T) => T;
+  persist?: PersistOptions<T>;
+  partialize?: (state: T) => Partial<T>;
+  quotaPolicy?: QuotaPolicy;
 }
 
 export type LocalStorageApiActions<T extends Record<string, unknown>> = {
@@ -27,5 +240,69 @@ export type LocalStorageApiActions<T extends Record<string, unknown>> = {
   set: <K extends keyof T>(key: K, value: T[K] | undefined) => void;
   patch: (partial: DeepPartial<T>) => void;
   remove: <K extends keyof T>(...keys: K[]) => void;
+  /** Removes the stored data and goes back to the defaults (see `clearTo`). */
   clear: () => void;
+  /** Restores `keys`, or every field, to their defaults. */
+  reset: (keys?: (keyof T)[]) => void;
+  /** Writes any update held back by `writeStrategy` right away. */
+  flush: () => void;
+  /** Steps back through the history. Requires the `history` option. */
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  status: HydrationStatus;
+  /** The last storage failure, cleared by the next successful write. */
+  error: LocalStorageStateError | null;
 };
+
+/**
+ * A persisted object created with `createLocalStorageStore`, usable both
+ * inside and outside React.
+ */
+export type LocalStorageStore<T extends Record<string, unknown>> = Omit<
+  LocalStorageApiActions<T>,
+  "status" | "error" | "canUndo" | "canRedo"
+> & {
+  getState: () => T;
+  getStatus: () => HydrationStatus;
+  getError: () => LocalStorageStateError | null;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  /** Calls `listener` after every state change. Returns an unsubscribe function. */
+  subscribe: (listener: (state: T, prevState: T) => void) => () => void;
+  /**
+   * React hook returning `selector(state)`. The component only re-renders
+   * when the selection changes according to `equalityFn` (default: `Object.is`).
+   */
+  useStore: <S = T>(
+    selector?: (state: T) => S,
+    equalityFn?: (a: S, b: S) => boolean
+  ) => S;
+  /** Applies the stored data when hydration is deferred. */
+  hydrate: () => Promise<void>;
+  /** Stops following changes made elsewhere. */
+  destroy: () => void;
+};
+
+/** A key in a `StateExport`: its data, with codecs applied, and the schema version it is in. */
+export type ExportedKey = {
+  version: number;
+  data: Record<string, unknown>;
+};
+
+/** Document written by `exportState` and read by `importState`. */
+export type StateExport = {
+  format: "use-local-storage-reacthook";
+  /** Version of the document format. */
+  version: 1;
+  /** When the export was made, as an ISO 8601 string. */
+  exportedAt: string;
+  keys: Record<string, ExportedKey>;
+};
+
+/**
+ * How `importState` applies a key: `"merge"` keeps the stored fields missing
+ * from the import, `"replace"` discards them.
+ */
+export type ImportMode = "merge" | "replace";
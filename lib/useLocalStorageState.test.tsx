@@ -1,5 +1,41 @@
-import { act, renderHook } from "@testing-library/react";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import "fake-indexeddb/auto";
+import type { ReactNode } from "react";
+import { hydrateRoot } from "react-dom/client";
+import { renderToString } from "react-dom/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { clearNamespace } from "./clearNamespace";
+import { bigintCodec, dateCodec, mapCodec, setCodec } from "./codecs";
+import { createLocalStorageStore } from "./createLocalStorageStore";
+import { enableDevtools, LocalStorageStateDevtools } from "./devtools";
+import {
+  StorageDecryptionError,
+  StorageMigrationError,
+  StorageParseError,
+  StorageQuotaExceededError,
+  StorageReadError,
+  StorageValidationError,
+  StorageWriteError,
+} from "./errors";
+import { exportState } from "./exportState";
+import { getStorageUsage } from "./getStorageUsage";
+import { importState } from "./importState";
+import { LocalStorageStateProvider } from "./LocalStorageStateProvider";
+import { purgeExpired } from "./purgeExpired";
+import { createCookieStorage } from "./storage/cookieStorage";
+import { createIndexedDBStorage } from "./storage/indexedDBStorage";
+import { createMemoryStorage } from "./storage/memoryStorage";
+import { sessionStorageAdapter } from "./storage/webStorage";
+import {
+  advanceTime,
+  createMockStorage,
+  installMockStorage,
+  readState,
+  seedState,
+  simulateTabWrite,
+} from "./testing";
+import { AsyncStorageAdapter, LocalStorageStateOptions } from "./types";
 import { useLocalStorageState } from "./useLocalStorageState";
 
 function mockLocalStorage() {
@@ -22,6 +58,34 @@ function mockLocalStorage() {
   } as unknown as Storage;
 }
 
+function mockAsyncStorage(initial: Record<string, string> = {}) {
+  const store = new Map(Object.entries(initial));
+  let release: () => void = () => {};
+  const loaded = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const storage: AsyncStorageAdapter = {
+    getItem: vi.fn(async (key: string) => {
+      await loaded;
+      return store.get(key) ?? null;
+    }),
+    setItem: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    removeItem: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    emitsStorageEvents: false,
+    async: true,
+  };
+  return { storage, store, release };
+}
+
+function readStored(key: string) {
+  const raw = window.localStorage.getItem(key);
+  return raw === null ? undefined : JSON.parse(raw).data;
+}
+
 describe("useLocalStorageState", () => {
   beforeEach(() => {
     Object.defineProperty(window, "localStorage", {
@@ -41,86 +105,2324 @@ describe("useLocalStorageState", () => {
       expect(result.current[0]).toEqual({ theme: "light", cols: [] });
     });
 
-    // namespaced strategy removed
+    it("deep merges nested defaults with stored data", () => {
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ editor: { fontSize: 16 } })
+      );
+      const { result } = renderHook(() =>
+        useLocalStorageState<{
+          editor?: { fontSize?: number; tabSize?: number; wrap?: boolean };
+        }>(
+          { editor: { fontSize: 12, tabSize: 2, wrap: true } },
+          { key: "prefs" }
+        )
+      );
+      expect(result.current[0]).toEqual({
+        editor: { fontSize: 16, tabSize: 2, wrap: true },
+      });
+    });
+
+    it("falls back to the defaults when null is stored", () => {
+      for (const stored of ["null", '{"__version":0,"data":null}']) {
+        window.localStorage.setItem("prefs", stored);
+        const { result, unmount } = renderHook(() =>
+          useLocalStorageState<{ theme?: string }>(
+            { theme: "light" },
+            { key: "prefs" }
+          )
+        );
+        expect(result.current[0]).toEqual({ theme: "light" });
+        unmount();
+      }
+    });
+
+    it("replaces default arrays, class instances and nulls as a whole", () => {
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ cols: ["b"], layout: { sidebar: null } })
+      );
+      const since = new Date("2020-01-01T00:00:00.000Z");
+      const { result } = renderHook(() =>
+        useLocalStorageState<{
+          cols?: string[];
+          since?: Date;
+          layout?: { sidebar?: { width: number } | null };
+        }>(
+          { cols: ["a"], since, layout: { sidebar: { width: 200 } } },
+          { key: "prefs" }
+        )
+      );
+      expect(result.current[0].cols).toEqual(["b"]);
+      expect(result.current[0].since).toBe(since);
+      expect(result.current[0].layout).toEqual({ sidebar: null });
+    });
   });
 
   describe("writes", () => {
     it("set writes to single key", () => {
       const { result } = renderHook(() =>
-        useLocalStorageState<{ theme?: string }>({}, { key: "prefs" })
+        useLocalStorageState<{ theme?: string }>({}, { key: "prefs" })
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      expect(window.localStorage.getItem("prefs")).toBeDefined();
+      expect(readStored("prefs")).toEqual({ theme: "dark" });
+    });
+  });
+
+  describe("patch", () => {
+    type Settings = {
+      editor?: { fontSize?: number; tabSize?: number; rulers?: number[] };
+      theme?: string;
+    };
+
+    it("deep merges nested partials", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<Settings>(
+          { editor: { fontSize: 12, tabSize: 2 }, theme: "light" },
+          { key: "prefs" }
+        )
+      );
+      act(() => result.current[1].patch({ editor: { fontSize: 14 } }));
+      expect(result.current[0]).toEqual({
+        editor: { fontSize: 14, tabSize: 2 },
+        theme: "light",
+      });
+      expect(readStored("prefs")).toEqual({
+        editor: { fontSize: 14, tabSize: 2 },
+        theme: "light",
+      });
+    });
+
+    it("replaces arrays by default", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<Settings>(
+          { editor: { rulers: [80] } },
+          { key: "prefs" }
+        )
+      );
+      act(() => result.current[1].patch({ editor: { rulers: [100] } }));
+      expect(result.current[0].editor?.rulers).toEqual([100]);
+    });
+
+    it("supports opting into another array rule", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<Settings>(
+          { editor: { rulers: [80] } },
+          { key: "prefs", arrayMerge: "concat" }
+        )
+      );
+      act(() => result.current[1].patch({ editor: { rulers: [100] } }));
+      expect(result.current[0].editor?.rulers).toEqual([80, 100]);
+    });
+
+    it("does not mutate the previous state", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<Settings>(
+          { editor: { fontSize: 12 } },
+          { key: "prefs" }
+        )
+      );
+      const before = result.current[0];
+      act(() => result.current[1].patch({ editor: { fontSize: 14 } }));
+      expect(before.editor).toEqual({ fontSize: 12 });
+    });
+  });
+
+  describe("writeStrategy", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("combines debounced updates into one write", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ volume?: number }>(
+          {},
+          { key: "prefs", writeStrategy: { debounceMs: 200 } }
+        )
+      );
+      act(() => {
+        result.current[1].set("volume", 1);
+        result.current[1].set("volume", 2);
+        result.current[1].set("volume", 3);
+      });
+      expect(result.current[0]).toEqual({ volume: 3 });
+      expect(window.localStorage.setItem).not.toHaveBeenCalledWith(
+        "prefs",
+        expect.anything()
+      );
+      act(() => vi.advanceTimersByTime(200));
+      const writes = vi
+        .mocked(window.localStorage.setItem)
+        .mock.calls.filter(([k]) => k === "prefs");
+      expect(writes).toHaveLength(1);
+      expect(readStored("prefs")).toEqual({ volume: 3 });
+    });
+
+    it("writes when the browser is idle", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ volume?: number }>(
+          {},
+          { key: "prefs", writeStrategy: "idle" }
+        )
+      );
+      act(() => result.current[1].set("volume", 1));
+      expect(window.localStorage.getItem("prefs")).toBeNull();
+      act(() => vi.runAllTimers());
+      expect(readStored("prefs")).toEqual({ volume: 1 });
+    });
+
+    it("flushes on demand", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ volume?: number }>(
+          {},
+          { key: "prefs", writeStrategy: { debounceMs: 200 } }
+        )
+      );
+      act(() => result.current[1].set("volume", 1));
+      act(() => result.current[1].flush());
+      expect(readStored("prefs")).toEqual({ volume: 1 });
+    });
+
+    it("flushes on pagehide and when the page is hidden", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ volume?: number }>(
+          {},
+          { key: "prefs", writeStrategy: { debounceMs: 200 } }
+        )
+      );
+      act(() => result.current[1].set("volume", 1));
+      window.dispatchEvent(new Event("pagehide"));
+      expect(readStored("prefs")).toEqual({ volume: 1 });
+
+      act(() => result.current[1].set("volume", 2));
+      const visibility = vi
+        .spyOn(document, "visibilityState", "get")
+        .mockReturnValue("hidden");
+      document.dispatchEvent(new Event("visibilitychange"));
+      visibility.mockRestore();
+      expect(readStored("prefs")).toEqual({ volume: 2 });
+    });
+
+    it("flushes on unmount", () => {
+      const { result, unmount } = renderHook(() =>
+        useLocalStorageState<{ volume?: number }>(
+          {},
+          { key: "prefs", writeStrategy: { debounceMs: 200 } }
+        )
+      );
+      act(() => result.current[1].set("volume", 1));
+      unmount();
+      expect(readStored("prefs")).toEqual({ volume: 1 });
+    });
+
+    it("does not write a pending update after clear", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ volume?: number }>(
+          {},
+          { key: "prefs", writeStrategy: { debounceMs: 200 } }
+        )
+      );
+      act(() => result.current[1].set("volume", 1));
+      act(() => result.current[1].clear());
+      act(() => vi.advanceTimersByTime(200));
+      expect(window.localStorage.getItem("prefs")).toBeNull();
+    });
+  });
+
+  describe("ttl", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("stores the expiry alongside the data", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ q?: string }>({}, { key: "filters", ttl: 1000 })
+      );
+      act(() => result.current[1].set("q", "shoes"));
+      const stored = JSON.parse(
+        window.localStorage.getItem("filters") as string
+      ) as { __expiresAt: number };
+      expect(stored.__expiresAt).toBe(Date.now() + 1000);
+    });
+
+    it("falls back to the defaults when stored data has expired", () => {
+      window.localStorage.setItem(
+        "filters",
+        JSON.stringify({
+          __version: 0,
+          data: { q: "shoes" },
+          __expiresAt: Date.now() - 1,
+        })
+      );
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ q?: string }>(
+          { q: "" },
+          { key: "filters", ttl: 1000 }
+        )
+      );
+      expect(result.current[0]).toEqual({ q: "" });
+    });
+
+    it("expires the state while mounted", () => {
+      const onChange = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ q?: string }>(
+          { q: "" },
+          { key: "filters", ttl: 1000, onChange }
+        )
+      );
+      act(() => result.current[1].set("q", "shoes"));
+      act(() => vi.advanceTimersByTime(999));
+      expect(result.current[0]).toEqual({ q: "shoes" });
+      act(() => vi.advanceTimersByTime(1));
+      expect(result.current[0]).toEqual({ q: "" });
+      expect(onChange).toHaveBeenLastCalledWith(
+        { q: "" },
+        { source: "expired" }
+      );
+      expect(window.localStorage.getItem("filters")).toBeNull();
+    });
+
+    it("expires individual fields when they have not changed", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ dismissed?: boolean; theme?: string }>(
+          { dismissed: false },
+          { key: "prefs", ttl: { fields: { dismissed: 1000 } } }
+        )
+      );
+      act(() => result.current[1].set("dismissed", true));
+      act(() => vi.advanceTimersByTime(500));
+      // Other fields changing does not restart the field's time-to-live
+      act(() => result.current[1].set("theme", "dark"));
+      act(() => vi.advanceTimersByTime(500));
+      expect(result.current[0]).toEqual({ dismissed: false, theme: "dark" });
+      expect(readStored("prefs")).toEqual({ dismissed: false, theme: "dark" });
+    });
+
+    it("purgeExpired removes expired keys and fields from storage", () => {
+      const storage = createMemoryStorage({
+        old: JSON.stringify({
+          __version: 0,
+          data: { q: "shoes" },
+          __expiresAt: Date.now() - 1,
+        }),
+        banner: JSON.stringify({
+          __version: 0,
+          data: { dismissed: true, theme: "dark" },
+          __fieldExpiresAt: { dismissed: Date.now() - 1 },
+        }),
+        fresh: JSON.stringify({
+          __version: 0,
+          data: { q: "hats" },
+          __expiresAt: Date.now() + 1000,
+        }),
+        other: "not json",
+      });
+      expect(purgeExpired(storage)).toEqual(["old", "banner"]);
+      expect(storage.getItem("old")).toBeNull();
+      expect(JSON.parse(storage.getItem("banner") as string)).toEqual({
+        __version: 0,
+        data: { theme: "dark" },
+      });
+      expect(storage.getItem("fresh")).not.toBeNull();
+    });
+
+    it("purgeExpired removes expired fields of the perField layout", () => {
+      const storage = createMemoryStorage({
+        banner: JSON.stringify({
+          __version: 0,
+          __fields: ["dismissed", "theme"],
+          __fieldExpiresAt: { dismissed: Date.now() - 1 },
+        }),
+        "banner:dismissed": "true",
+        "banner:theme": '"dark"',
+      });
+      expect(purgeExpired(storage)).toEqual(["banner:dismissed", "banner"]);
+      expect(storage.getItem("banner:dismissed")).toBeNull();
+      expect(JSON.parse(storage.getItem("banner") as string)).toEqual({
+        __version: 0,
+        __fields: ["theme"],
+      });
+    });
+  });
+
+  describe("history", () => {
+    it("undoes and redoes updates", () => {
+      const onChange = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ size?: number }>(
+          { size: 12 },
+          { key: "editor", history: {}, onChange }
+        )
+      );
+      expect(result.current[1].canUndo).toBe(false);
+      act(() => result.current[1].set("size", 14));
+      act(() => result.current[1].patch({ size: 16 }));
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toEqual({ size: 14 });
+      expect(readStored("editor")).toEqual({ size: 14 });
+      expect(onChange).toHaveBeenLastCalledWith(
+        { size: 14 },
+        { source: "undo" }
+      );
+      expect(result.current[1].canRedo).toBe(true);
+      act(() => result.current[1].redo());
+      expect(result.current[0]).toEqual({ size: 16 });
+      expect(onChange).toHaveBeenLastCalledWith(
+        { size: 16 },
+        { source: "redo" }
+      );
+      expect(result.current[1].canRedo).toBe(false);
+    });
+
+    it("keeps at most `limit` steps and drops redo steps on a new update", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ size?: number }>(
+          { size: 0 },
+          { key: "editor", history: { limit: 2 } }
+        )
+      );
+      act(() => result.current[1].set("size", 1));
+      act(() => result.current[1].set("size", 2));
+      act(() => result.current[1].set("size", 3));
+      act(() => result.current[1].undo());
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toEqual({ size: 1 });
+      expect(result.current[1].canUndo).toBe(false);
+      act(() => result.current[1].set("size", 5));
+      expect(result.current[1].canRedo).toBe(false);
+    });
+
+    it("restores a persisted history after a reload", () => {
+      const options = { key: "editor", history: { persist: true } };
+      const first = renderHook(() =>
+        useLocalStorageState<{ size?: number }>({ size: 12 }, options)
+      );
+      act(() => first.result.current[1].set("size", 14));
+      first.unmount();
+
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ size?: number }>({ size: 12 }, options)
+      );
+      expect(result.current[1].canUndo).toBe(true);
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toEqual({ size: 12 });
+    });
+
+    it("keeps undo steps but drops redo steps on external changes", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ size?: number }>(
+          { size: 12 },
+          { key: "editor", history: {} }
+        )
+      );
+      act(() => result.current[1].set("size", 14));
+      act(() => result.current[1].set("size", 16));
+      act(() => result.current[1].undo());
+      act(() => {
+        window.localStorage.setItem("editor", JSON.stringify({ size: 20 }));
+        window.dispatchEvent(new StorageEvent("storage", { key: "editor" }));
+      });
+      expect(result.current[0]).toEqual({ size: 20 });
+      expect(result.current[1].canRedo).toBe(false);
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toEqual({ size: 12 });
+    });
+  });
+
+  describe("createLocalStorageStore", () => {
+    it("reads and writes outside React", () => {
+      window.localStorage.setItem(
+        "settings",
+        JSON.stringify({ theme: "dark" })
+      );
+      const store = createLocalStorageStore<{ theme?: string; size?: number }>(
+        { size: 12 },
+        { key: "settings" }
+      );
+      const listener = vi.fn();
+      store.subscribe(listener);
+      expect(store.getState()).toEqual({ theme: "dark", size: 12 });
+      store.set("size", 14);
+      expect(listener).toHaveBeenCalledWith(
+        { theme: "dark", size: 14 },
+        { theme: "dark", size: 12 }
+      );
+      expect(readStored("settings")).toEqual({ theme: "dark", size: 14 });
+      store.destroy();
+    });
+
+    it("re-renders only when the selected slice changes", () => {
+      const store = createLocalStorageStore<{ theme: string; size: number }>(
+        { theme: "light", size: 12 },
+        { key: "settings" }
+      );
+      let renders = 0;
+      const { result } = renderHook(() => {
+        renders++;
+        return store.useStore((state) => state.theme);
+      });
+      expect(result.current).toBe("light");
+      act(() => store.set("size", 14));
+      expect(renders).toBe(1);
+      act(() => store.set("theme", "dark"));
+      expect(result.current).toBe("dark");
+      expect(renders).toBe(2);
+      store.destroy();
+    });
+
+    it("supports a custom equality function", () => {
+      const store = createLocalStorageStore<{ tags: string[] }>(
+        { tags: ["a"] },
+        { key: "settings" }
+      );
+      let renders = 0;
+      renderHook(() => {
+        renders++;
+        return store.useStore(
+          (state) => state.tags.map((tag) => tag.toUpperCase()),
+          (a, b) => a.join() === b.join()
+        );
+      });
+      act(() => store.setState({ tags: ["a"] }));
+      expect(renders).toBe(1);
+      store.destroy();
+    });
+
+    it("shares state with hooks using the same key", () => {
+      const store = createLocalStorageStore<{ theme?: string }>(
+        {},
+        { key: "settings" }
+      );
+      const onChange = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          {},
+          { key: "settings", onChange }
+        )
+      );
+      act(() => store.set("theme", "dark"));
+      expect(result.current[0]).toEqual({ theme: "dark" });
+      expect(onChange).toHaveBeenCalledWith(
+        { theme: "dark" },
+        { source: "sync" }
+      );
+      act(() => result.current[1].set("theme", "light"));
+      expect(store.getState()).toEqual({ theme: "light" });
+      store.destroy();
+    });
+
+    it("follows changes made in other tabs", () => {
+      const store = createLocalStorageStore<{ theme?: string }>(
+        {},
+        { key: "settings" }
+      );
+      window.localStorage.setItem(
+        "settings",
+        JSON.stringify({ theme: "dark" })
+      );
+      window.dispatchEvent(new StorageEvent("storage", { key: "settings" }));
+      expect(store.getState()).toEqual({ theme: "dark" });
+      store.destroy();
+    });
+  });
+
+  describe("encryption", () => {
+    const generateKey = () =>
+      crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+        "encrypt",
+        "decrypt",
+      ]);
+
+    async function persist(key: CryptoKey, value: string) {
+      const { result, unmount } = renderHook(() =>
+        useLocalStorageState<{ draft?: string }>(
+          {},
+          { key: "draft", encryption: { key } }
+        )
+      );
+      await waitFor(() => expect(result.current[1].status).toBe("ready"));
+      act(() => result.current[1].set("draft", value));
+      await waitFor(() =>
+        expect(window.localStorage.getItem("draft")).toMatch(/^enc:v1:/)
+      );
+      unmount();
+    }
+
+    it("stores the value encrypted and reads it back", async () => {
+      const key = await generateKey();
+      await persist(key, "Dear diary");
+      expect(window.localStorage.getItem("draft")).not.toContain("diary");
+
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ draft?: string }>(
+          {},
+          { key: "draft", encryption: { key } }
+        )
+      );
+      expect(result.current[1].status).toBe("loading");
+      await waitFor(() =>
+        expect(result.current[0]).toEqual({ draft: "Dear diary" })
+      );
+    });
+
+    it("hydrates and writes an encrypted store used outside React", async () => {
+      const key = await generateKey();
+      await persist(key, "Dear diary");
+      const store = createLocalStorageStore<{ draft?: string; mood?: string }>(
+        {},
+        { key: "draft", encryption: { key } }
+      );
+      await waitFor(() => expect(store.getStatus()).toBe("ready"));
+      expect(store.getState()).toEqual({ draft: "Dear diary" });
+
+      const previous = window.localStorage.getItem("draft");
+      store.set("mood", "happy");
+      await waitFor(() =>
+        expect(window.localStorage.getItem("draft")).not.toBe(previous)
+      );
+      store.destroy();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ draft?: string; mood?: string }>(
+          {},
+          { key: "draft", encryption: { key } }
+        )
+      );
+      await waitFor(() =>
+        expect(result.current[0]).toEqual({
+          draft: "Dear diary",
+          mood: "happy",
+        })
+      );
+    });
+
+    it("falls back to the defaults when the key does not match", async () => {
+      await persist(await generateKey(), "Dear diary");
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ draft?: string }>(
+          { draft: "" },
+          { key: "draft", encryption: { key: generateKey() }, onError }
+        )
+      );
+      await waitFor(() => expect(result.current[1].status).toBe("ready"));
+      expect(result.current[0]).toEqual({ draft: "" });
+      expect(result.current[1].error).toBeInstanceOf(StorageDecryptionError);
+      expect(onError).toHaveBeenCalledWith(expect.any(StorageDecryptionError), {
+        operation: "decrypt",
+        key: "draft",
+      });
+    });
+
+    it("re-encrypts values written with a previous key", async () => {
+      const oldKey = await generateKey();
+      const newKey = await generateKey();
+      await persist(oldKey, "Dear diary");
+
+      const rotated = renderHook(() =>
+        useLocalStorageState<{ draft?: string }>(
+          {},
+          { key: "draft", encryption: { key: newKey, previousKeys: [oldKey] } }
+        )
+      );
+      await waitFor(() =>
+        expect(rotated.result.current[0]).toEqual({ draft: "Dear diary" })
+      );
+      rotated.unmount();
+
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ draft?: string }>(
+          {},
+          { key: "draft", encryption: { key: newKey } }
+        )
+      );
+      await waitFor(() =>
+        expect(result.current[0]).toEqual({ draft: "Dear diary" })
+      );
+    });
+
+    it("encrypts values stored before encryption was turned on", async () => {
+      window.localStorage.setItem(
+        "draft",
+        JSON.stringify({ __version: 0, data: { draft: "Dear diary" } })
+      );
+      const key = await generateKey();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ draft?: string }>(
+          {},
+          { key: "draft", encryption: { key } }
+        )
+      );
+      await waitFor(() =>
+        expect(result.current[0]).toEqual({ draft: "Dear diary" })
+      );
+      await waitFor(() =>
+        expect(window.localStorage.getItem("draft")).toMatch(/^enc:v1:/)
+      );
+    });
+  });
+
+  describe("compression", () => {
+    const items = Array.from({ length: 200 }, (_, i) => ({
+      id: i,
+      label: "Item number " + String(i),
+    }));
+
+    it("stores large values compressed and reads them back", () => {
+      const { result, unmount } = renderHook(() =>
+        useLocalStorageState<{ items?: typeof items }>(
+          {},
+          { key: "cache", compression: true }
+        )
+      );
+      act(() => result.current[1].set("items", items));
+      const raw = window.localStorage.getItem("cache") || "";
+      expect(raw).toMatch(/^lz:/);
+      expect(raw.length).toBeLessThan(JSON.stringify(items).length);
+      unmount();
+
+      const { result: remounted } = renderHook(() =>
+        useLocalStorageState<{ items?: typeof items }>(
+          {},
+          { key: "cache", compression: true }
+        )
+      );
+      expect(remounted.current[0]).toEqual({ items });
+    });
+
+    it("keeps values below the threshold uncompressed", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          {},
+          { key: "prefs", compression: { threshold: 512 } }
+        )
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      expect(JSON.parse(window.localStorage.getItem("prefs") || "{}")).toEqual({
+        __version: 0,
+        data: { theme: "dark" },
+        __revision: { counter: 1, tab: expect.any(String) },
+      });
+    });
+
+    it("reads uncompressed values and compresses them on the next write", () => {
+      window.localStorage.setItem(
+        "cache",
+        JSON.stringify({ __version: 0, data: { items } })
+      );
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ items?: typeof items; page?: number }>(
+          {},
+          { key: "cache", compression: true }
+        )
+      );
+      expect(result.current[0]).toEqual({ items });
+      act(() => result.current[1].set("page", 2));
+      expect(window.localStorage.getItem("cache")).toMatch(/^lz:/);
+    });
+
+    it("round-trips non-ASCII text", () => {
+      const text = "Größe 🚀 日本語 ".repeat(100);
+      const { result, unmount } = renderHook(() =>
+        useLocalStorageState<{ text?: string }>(
+          {},
+          { key: "note", compression: { threshold: 0 } }
+        )
+      );
+      act(() => result.current[1].set("text", text));
+      expect(window.localStorage.getItem("note")).toMatch(/^lz:/);
+      unmount();
+
+      const { result: remounted } = renderHook(() =>
+        useLocalStorageState<{ text?: string }>(
+          {},
+          { key: "note", compression: { threshold: 0 } }
+        )
+      );
+      expect(remounted.current[0]).toEqual({ text });
+    });
+
+    it("reports corrupted compressed data", () => {
+      window.localStorage.setItem("cache", "lz:\u0001");
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ items?: typeof items }>(
+          {},
+          { key: "cache", compression: true, onError }
+        )
+      );
+      expect(result.current[0]).toEqual({});
+      expect(onError.mock.calls[0]?.[0]).toBeInstanceOf(StorageParseError);
+    });
+  });
+
+  describe("strategy", () => {
+    type Prefs = { theme?: string; page?: number; tags?: string[] };
+
+    it("stores each field under its own key with perField", () => {
+      const { result, unmount } = renderHook(() =>
+        useLocalStorageState<Prefs>({}, { key: "prefs", strategy: "perField" })
+      );
+      act(() => result.current[1].patch({ theme: "dark", tags: ["a"] }));
+      expect(window.localStorage.getItem("prefs:theme")).toBe('"dark"');
+      expect(window.localStorage.getItem("prefs:tags")).toBe('["a"]');
+      expect(JSON.parse(window.localStorage.getItem("prefs") || "{}")).toEqual({
+        __version: 0,
+        __fields: ["theme", "tags"],
+      });
+      unmount();
+
+      const { result: remounted } = renderHook(() =>
+        useLocalStorageState<Prefs>({}, { key: "prefs", strategy: "perField" })
+      );
+      expect(remounted.current[0]).toEqual({ theme: "dark", tags: ["a"] });
+    });
+
+    it("only writes the fields that changed", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>({}, { key: "prefs", strategy: "perField" })
+      );
+      act(() => result.current[1].patch({ theme: "dark", page: 1 }));
+      const setItem = vi.mocked(window.localStorage.setItem);
+      setItem.mockClear();
+      act(() => result.current[1].set("page", 2));
+      expect(setItem.mock.calls).toEqual([["prefs:page", "2"]]);
+    });
+
+    it("removes only the keys involved", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>({}, { key: "prefs", strategy: "perField" })
+      );
+      act(() => result.current[1].patch({ theme: "dark", page: 1 }));
+      window.localStorage.setItem("prefs:other", "unrelated");
+
+      act(() => result.current[1].remove("page"));
+      expect(window.localStorage.getItem("prefs:page")).toBeNull();
+      expect(window.localStorage.getItem("prefs:theme")).toBe('"dark"');
+
+      act(() => result.current[1].clear());
+      expect(window.localStorage.getItem("prefs")).toBeNull();
+      expect(window.localStorage.getItem("prefs:theme")).toBeNull();
+      expect(window.localStorage.getItem("prefs:other")).toBe("unrelated");
+    });
+
+    it("applies storage events for a single field", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>(
+          { page: 1 },
+          { key: "prefs", strategy: "perField" }
+        )
+      );
+      act(() => result.current[1].patch({ theme: "dark", page: 2 }));
+      const getItem = vi.mocked(window.localStorage.getItem);
+      getItem.mockClear();
+
+      act(() => {
+        window.localStorage.setItem("prefs:theme", '"light"');
+        window.dispatchEvent(
+          new StorageEvent("storage", { key: "prefs:theme", newValue: "x" })
+        );
+      });
+      expect(result.current[0]).toEqual({ theme: "light", page: 2 });
+      expect(getItem.mock.calls).toEqual([["prefs:theme"]]);
+
+      act(() => {
+        window.localStorage.removeItem("prefs:page");
+        window.dispatchEvent(
+          new StorageEvent("storage", { key: "prefs:page", newValue: null })
+        );
+      });
+      expect(result.current[0]).toEqual({ theme: "light", page: 1 });
+    });
+
+    it("ignores other keys starting with the key", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>(
+          { page: 1 },
+          { key: "prefs", strategy: "perField" }
+        )
+      );
+      act(() => result.current[1].patch({ theme: "dark", page: 2 }));
+      const getItem = vi.mocked(window.localStorage.getItem);
+      getItem.mockClear();
+
+      act(() => {
+        window.localStorage.setItem("prefs::theme", '"light"');
+        window.dispatchEvent(
+          new StorageEvent("storage", { key: "prefs::theme", newValue: "x" })
+        );
+      });
+      expect(result.current[0]).toEqual({ theme: "dark", page: 2 });
+      expect(getItem).not.toHaveBeenCalled();
+    });
+
+    it("migrates from the single layout to perField", () => {
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ __version: 0, data: { theme: "dark", page: 3 } })
+      );
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>({}, { key: "prefs", strategy: "perField" })
+      );
+      expect(result.current[0]).toEqual({ theme: "dark", page: 3 });
+      expect(window.localStorage.getItem("prefs:theme")).toBe('"dark"');
+      expect(window.localStorage.getItem("prefs:page")).toBe("3");
+      expect(JSON.parse(window.localStorage.getItem("prefs") || "{}")).toEqual({
+        __version: 0,
+        __fields: ["theme", "page"],
+      });
+    });
+
+    it("migrates from perField back to the single layout", () => {
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ __version: 0, __fields: ["theme", "page"] })
+      );
+      window.localStorage.setItem("prefs:theme", '"dark"');
+      window.localStorage.setItem("prefs:page", "3");
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>({}, { key: "prefs" })
+      );
+      expect(result.current[0]).toEqual({ theme: "dark", page: 3 });
+      expect(readStored("prefs")).toEqual({ theme: "dark", page: 3 });
+      expect(window.localStorage.getItem("prefs:theme")).toBeNull();
+      expect(window.localStorage.getItem("prefs:page")).toBeNull();
+    });
+
+    it("runs version migrations on perField data", () => {
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ __version: 0, __fields: ["color"] })
+      );
+      window.localStorage.setItem("prefs:color", '"dark"');
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>(
+          {},
+          {
+            key: "prefs",
+            strategy: "perField",
+            version: 1,
+            migrations: {
+              1: (stored) => {
+                const { color, ...rest } = stored as { color?: string };
+                return { ...rest, theme: color };
+              },
+            },
+          }
+        )
+      );
+      expect(result.current[0]).toEqual({ theme: "dark" });
+      expect(window.localStorage.getItem("prefs:color")).toBeNull();
+      expect(window.localStorage.getItem("prefs:theme")).toBe('"dark"');
+    });
+  });
+
+  describe("onChange", () => {
+    it("called with correct state and source", () => {
+      const onChange = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string; page?: number }>(
+          {},
+          {
+            key: "prefs",
+            onChange,
+          }
+        )
+      );
+      act(() => result.current[1].patch({ theme: "dark" }));
+      act(() => result.current[1].set("page", 3));
+      const sources = onChange.mock.calls.map((c) => c[1].source);
+      expect(sources).toEqual(["patch", "patch"]);
+      const states = onChange.mock.calls.map((c) => c[0]);
+      expect(states[0]).toEqual({ theme: "dark" });
+      expect(states[1]).toEqual({ theme: "dark", page: 3 });
+    });
+  });
+
+  describe("syncAcrossTabs", () => {
+    it("updates on storage event", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          {},
+          {
+            key: "prefs",
+            syncAcrossTabs: true,
+          }
+        )
+      );
+      act(() => {
+        window.localStorage.setItem("prefs", JSON.stringify({ theme: "dark" }));
+        window.dispatchEvent(
+          new StorageEvent("storage", {
+            key: "prefs",
+            newValue: JSON.stringify({ theme: "dark" }),
+          })
+        );
+      });
+      expect(result.current[0]).toEqual({ theme: "dark" });
+    });
+
+    it("applies a storage event once for all instances", () => {
+      const onChange = vi.fn();
+      renderHook(() => ({
+        a: useLocalStorageState<{ theme?: string }>(
+          {},
+          { key: "prefs", onChange }
+        ),
+        b: useLocalStorageState<{ theme?: string }>(
+          {},
+          { key: "prefs", onChange }
+        ),
+      }));
+      act(() => {
+        window.localStorage.setItem("prefs", JSON.stringify({ theme: "dark" }));
+        window.dispatchEvent(new StorageEvent("storage", { key: "prefs" }));
+      });
+      expect(onChange).toHaveBeenCalledTimes(2);
+      expect(onChange.mock.calls.map((c) => c[1].source)).toEqual([
+        "external",
+        "external",
+      ]);
+      expect(window.localStorage.getItem).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("conflicts", () => {
+    type Prefs = { theme?: string; page?: number };
+
+    function writeFromOtherTab(data: Prefs, counter: number) {
+      const value = JSON.stringify({
+        __version: 0,
+        data,
+        __revision: { counter, tab: "other-tab" },
+      });
+      window.localStorage.setItem("prefs", value);
+      window.dispatchEvent(
+        new StorageEvent("storage", { key: "prefs", newValue: value })
+      );
+    }
+
+    it("tags every write with a revision", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>({}, { key: "prefs" })
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      const first = JSON.parse(window.localStorage.getItem("prefs") || "{}");
+      act(() => writeFromOtherTab({ theme: "light" }, 5));
+      act(() => result.current[1].set("page", 2));
+      const second = JSON.parse(window.localStorage.getItem("prefs") || "{}");
+
+      expect(first.__revision).toEqual({ counter: 1, tab: expect.any(String) });
+      expect(second.__revision).toEqual({
+        counter: 6,
+        tab: first.__revision.tab,
+      });
+    });
+
+    it("applies updates that followed this tab's writes as they are", () => {
+      const onChange = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>({}, { key: "prefs", onChange })
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      act(() => writeFromOtherTab({ theme: "light" }, 2));
+      expect(result.current[0]).toEqual({ theme: "light" });
+      expect(onChange).toHaveBeenLastCalledWith(
+        { theme: "light" },
+        { source: "external" }
+      );
+    });
+
+    it("merges concurrent writes field by field", () => {
+      const onChange = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>({}, { key: "prefs", onChange })
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      // Written by a tab that had not seen the theme change
+      act(() => writeFromOtherTab({ page: 3 }, 1));
+
+      expect(result.current[0]).toEqual({ theme: "dark", page: 3 });
+      expect(onChange).toHaveBeenLastCalledWith(
+        { theme: "dark", page: 3 },
+        { source: "merged" }
+      );
+      expect(readStored("prefs")).toEqual({ theme: "dark", page: 3 });
+    });
+
+    it("keeps the remote value of a field changed on both sides", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>({}, { key: "prefs" })
+      );
+      act(() => result.current[1].patch({ theme: "dark", page: 1 }));
+      act(() => writeFromOtherTab({ theme: "light" }, 1));
+      expect(result.current[0]).toEqual({ theme: "light", page: 1 });
+    });
+
+    it("merges unsaved local changes into external updates", () => {
+      vi.useFakeTimers();
+      try {
+        const { result } = renderHook(() =>
+          useLocalStorageState<Prefs>(
+            {},
+            { key: "prefs", writeStrategy: { debounceMs: 100 } }
+          )
+        );
+        act(() => result.current[1].set("page", 2));
+        act(() => writeFromOtherTab({ theme: "dark" }, 1));
+        expect(result.current[0]).toEqual({ theme: "dark", page: 2 });
+        expect(readStored("prefs")).toEqual({ theme: "dark", page: 2 });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("calls resolveConflict with the local, remote and base states", () => {
+      const resolveConflict = vi.fn((local: Prefs, remote: Prefs) => ({
+        ...remote,
+        page: (local.page ?? 0) + (remote.page ?? 0),
+      }));
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>(
+          { page: 0 },
+          { key: "prefs", resolveConflict }
+        )
+      );
+      act(() => result.current[1].set("page", 1));
+      act(() => writeFromOtherTab({ page: 2 }, 1));
+
+      expect(resolveConflict).toHaveBeenCalledWith(
+        { page: 1 },
+        { page: 2 },
+        { page: 0 }
+      );
+      expect(result.current[0]).toEqual({ page: 3 });
+    });
+  });
+
+  describe("syncTransport", () => {
+    type Prefs = { theme?: string; page?: number };
+    const channelName = "use-local-storage-reacthook:localStorage:prefs";
+    let otherTab: BroadcastChannel;
+
+    beforeEach(() => {
+      otherTab = new BroadcastChannel(channelName);
+    });
+
+    afterEach(() => {
+      otherTab.close();
+      vi.unstubAllGlobals();
+    });
+
+    function sendFromOtherTab(fields: Prefs, counter: number, version = 0) {
+      otherTab.postMessage({
+        tab: "other-tab",
+        version,
+        revision: { counter, tab: "other-tab" },
+        expiry: undefined,
+        fields,
+        removed: [],
+      });
+    }
+
+    it("sends the changed fields and the revision to other tabs", async () => {
+      const messages: unknown[] = [];
+      otherTab.onmessage = (event) => messages.push(event.data);
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>(
+          {},
+          { key: "prefs", syncTransport: "broadcast-channel" }
+        )
+      );
+      act(() => result.current[1].patch({ theme: "dark", page: 1 }));
+      act(() => result.current[1].set("page", 2));
+      await waitFor(() => expect(messages).toHaveLength(2));
+      expect(messages[1]).toEqual({
+        tab: expect.any(String),
+        version: 0,
+        revision: { counter: 2, tab: expect.any(String) },
+        expiry: undefined,
+        fields: { page: 2 },
+        removed: [],
+      });
+    });
+
+    it("applies received fields without reading storage", async () => {
+      const onChange = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>(
+          { page: 1 },
+          { key: "prefs", syncTransport: "broadcast-channel", onChange }
+        )
+      );
+      vi.mocked(window.localStorage.getItem).mockClear();
+      sendFromOtherTab({ theme: "dark" }, 1);
+      await waitFor(() =>
+        expect(result.current[0]).toEqual({ theme: "dark", page: 1 })
+      );
+      expect(window.localStorage.getItem).not.toHaveBeenCalled();
+      expect(onChange).toHaveBeenCalledWith(
+        { theme: "dark", page: 1 },
+        { source: "external" }
+      );
+    });
+
+    it("syncs backends without storage events", async () => {
+      const storage = createCookieStorage();
+      otherTab.close();
+      otherTab = new BroadcastChannel(
+        "use-local-storage-reacthook:cookie:/:prefs"
+      );
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>(
+          {},
+          { key: "prefs", storage, syncTransport: "broadcast-channel" }
+        )
+      );
+      sendFromOtherTab({ theme: "dark" }, 1);
+      await waitFor(() => expect(result.current[0]).toEqual({ theme: "dark" }));
+    });
+
+    it("reads storage for changes made with another version", async () => {
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ __version: 1, data: { theme: "light" } })
+      );
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>(
+          {},
+          { key: "prefs", version: 1, syncTransport: "broadcast-channel" }
+        )
+      );
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ __version: 1, data: { theme: "dark" } })
+      );
+      sendFromOtherTab({ page: 3 }, 1, 2);
+      await waitFor(() => expect(result.current[0]).toEqual({ theme: "dark" }));
+    });
+
+    it("stores both changes when two tabs write at the same time", async () => {
+      type Counts = { a: number; b: number; c: number };
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ __version: 0, data: { a: 1, b: 0, c: 0 } })
+      );
+      const options = {
+        key: "prefs",
+        syncTransport: "broadcast-channel",
+      } as const;
+      const first = renderHook(() =>
+        useLocalStorageState<Counts>({ a: 0, b: 0, c: 0 }, options)
+      );
+      // A fresh copy of the library runs as another tab, with its own id
+      vi.resetModules();
+      const otherTabModule = await import("./useLocalStorageState");
+      const second = renderHook(() =>
+        otherTabModule.useLocalStorageState<Counts>(
+          { a: 0, b: 0, c: 0 },
+          options
+        )
+      );
+
+      act(() => {
+        first.result.current[1].set("b", 2);
+        second.result.current[1].set("c", 3);
+      });
+
+      const merged = { a: 1, b: 2, c: 3 };
+      await waitFor(() => {
+        expect(first.result.current[0]).toEqual(merged);
+        expect(second.result.current[0]).toEqual(merged);
+      });
+      expect(readStored("prefs")).toEqual(merged);
+    });
+
+    it("opens one channel per backend, and none for backends scoped to a tab", () => {
+      const opened: string[] = [];
+      vi.stubGlobal(
+        "BroadcastChannel",
+        class extends BroadcastChannel {
+          constructor(name: string) {
+            super(name);
+            opened.push(name);
+          }
+        }
+      );
+      const options = {
+        key: "prefs",
+        syncTransport: "broadcast-channel",
+      } as const;
+      const memoryStorage = createMemoryStorage();
+      renderHook(() => useLocalStorageState<Prefs>({}, options));
+      const session = renderHook(() =>
+        useLocalStorageState<Prefs>(
+          {},
+          { ...options, storage: sessionStorageAdapter }
+        )
+      );
+      const memory = renderHook(() =>
+        useLocalStorageState<Prefs>({}, { ...options, storage: memoryStorage })
+      );
+      act(() => {
+        session.result.current[1].set("theme", "dark");
+        memory.result.current[1].set("theme", "dark");
+      });
+      expect(opened).toEqual([
+        "use-local-storage-reacthook:localStorage:prefs",
+      ]);
+    });
+
+    it("falls back to storage events without BroadcastChannel", () => {
+      vi.stubGlobal("BroadcastChannel", undefined);
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>(
+          {},
+          { key: "prefs", syncTransport: "broadcast-channel" }
+        )
+      );
+      act(() => {
+        window.localStorage.setItem("prefs", JSON.stringify({ theme: "dark" }));
+        window.dispatchEvent(new StorageEvent("storage", { key: "prefs" }));
+      });
+      expect(result.current[0]).toEqual({ theme: "dark" });
+    });
+  });
+
+  describe("devtools", () => {
+    let devtools: LocalStorageStateDevtools | undefined;
+
+    afterEach(() => {
+      devtools?.disable();
+      devtools = undefined;
+      delete window.__REDUX_DEVTOOLS_EXTENSION__;
+    });
+
+    it("lists the keys in use with their value, version and size", () => {
+      devtools = enableDevtools();
+      const first = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          {},
+          { key: "prefs", version: 2 }
+        )
+      );
+      const second = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          {},
+          { key: "prefs", version: 2 }
+        )
+      );
+      act(() => first.result.current[1].set("theme", "dark"));
+      const raw = window.localStorage.getItem("prefs") || "";
+      expect(devtools.getKeys()).toEqual([
+        {
+          key: "prefs",
+          value: { theme: "dark" },
+          version: 2,
+          status: "ready",
+          size: ("prefs".length + raw.length) * 2,
+          instances: 2,
+        },
+      ]);
+
+      first.unmount();
+      second.unmount();
+      expect(devtools.getKeys()).toEqual([]);
+    });
+
+    it("logs recent operations with their source and diff", () => {
+      devtools = enableDevtools({ limit: 2 });
+      const listener = vi.fn();
+      devtools.subscribe(listener);
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string; page?: number }>(
+          {},
+          { key: "prefs" }
+        )
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      act(() => result.current[1].set("page", 1));
+      act(() => {
+        window.localStorage.setItem(
+          "prefs",
+          JSON.stringify({ theme: "light", page: 1 })
+        );
+        window.dispatchEvent(new StorageEvent("storage", { key: "prefs" }));
+      });
+
+      const log = devtools.getLog();
+      expect(log).toHaveLength(2);
+      expect(log[0]).toEqual({
+        key: "prefs",
+        source: "patch",
+        instance: expect.any(Number),
+        diff: { page: { from: undefined, to: 1 } },
+        timestamp: expect.any(Number),
+        stack: expect.any(String),
+      });
+      expect(log[1]).toMatchObject({
+        source: "external",
+        instance: undefined,
+        diff: { theme: { from: "dark", to: "light" } },
+        stack: undefined,
+      });
+      expect(listener).toHaveBeenCalledTimes(3);
+    });
+
+    it("is exposed on window until disabled", () => {
+      devtools = enableDevtools();
+      expect(window.__LOCAL_STORAGE_STATE_DEVTOOLS__).toBe(devtools);
+      expect(enableDevtools()).toBe(devtools);
+      devtools.disable();
+      expect(window.__LOCAL_STORAGE_STATE_DEVTOOLS__).toBeUndefined();
+    });
+
+    it("sends changes to the Redux DevTools extension", () => {
+      const connection = { init: vi.fn(), send: vi.fn() };
+      window.__REDUX_DEVTOOLS_EXTENSION__ = { connect: () => connection };
+      devtools = enableDevtools();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>({}, { key: "prefs" })
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      expect(connection.init).toHaveBeenCalledWith({});
+      expect(connection.send).toHaveBeenLastCalledWith(
+        { type: "prefs/patch" },
+        { prefs: { theme: "dark" } }
+      );
+    });
+  });
+
+  describe("exportState/importState", () => {
+    it("exports the keys of mounted hooks with their version", () => {
+      const since = new Date("2024-01-01T00:00:00.000Z");
+      renderHook(() =>
+        useLocalStorageState<{ theme?: string; since?: Date }>(
+          { theme: "dark", since },
+          { key: "prefs", version: 2, codecs: { since: dateCodec() } }
+        )
+      );
+      const document = exportState();
+      expect(document).toEqual({
+        format: "use-local-storage-reacthook",
+        version: 1,
+        exportedAt: expect.any(String),
+        keys: {
+          prefs: {
+            version: 2,
+            data: { theme: "dark", since: since.toISOString() },
+          },
+        },
+      });
+      expect(JSON.parse(JSON.stringify(document))).toEqual(document);
+    });
+
+    it("exports stored keys by prefix", () => {
+      const storage = createMemoryStorage({
+        "app:prefs": JSON.stringify({ __version: 1, data: { theme: "dark" } }),
+        "app:prefs__history": JSON.stringify({ __version: 1, data: {} }),
+        "app:layout": JSON.stringify({ __version: 0, __fields: ["cols"] }),
+        "app:layout:cols": JSON.stringify({ count: 2 }),
+        "app:expired": JSON.stringify({
+          __version: 0,
+          data: { seen: true },
+          __expiresAt: Date.now() - 1,
+        }),
+        other: JSON.stringify({ __version: 0, data: { a: 1 } }),
+      });
+      expect(exportState({ storage, prefix: "app:" }).keys).toEqual({
+        "app:prefs": { version: 1, data: { theme: "dark" } },
+        "app:layout": { version: 0, data: { cols: { count: 2 } } },
+      });
+      expect(exportState({ storage, keys: ["other"] }).keys).toEqual({
+        other: { version: 0, data: { a: 1 } },
+      });
+      expect(() =>
+        exportState({
+          storage: { ...storage, keys: undefined },
+          prefix: "app:",
+        })
+      ).toThrow(TypeError);
+    });
+
+    it("imports through mounted hooks, migrating and notifying them", () => {
+      const onChange = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string; fontSize?: number }>(
+          { fontSize: 12 },
+          {
+            key: "prefs",
+            version: 2,
+            migrations: {
+              2: (stored) => {
+                const { size, ...rest } = stored as { size?: number };
+                return { ...rest, fontSize: size };
+              },
+            },
+            onChange,
+          }
+        )
+      );
+      const document = {
+        format: "use-local-storage-reacthook",
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        keys: { prefs: { version: 1, data: { theme: "dark", size: 16 } } },
+      };
+
+      let report = importState(document, { dryRun: true });
+      expect(result.current[0]).toEqual({ fontSize: 12 });
+      act(() => {
+        report = importState(document);
+      });
+      expect(report).toEqual({ imported: ["prefs"], skipped: [] });
+      expect(result.current[0]).toEqual({ theme: "dark", fontSize: 16 });
+      expect(readStored("prefs")).toEqual({ theme: "dark", fontSize: 16 });
+      expect(onChange).toHaveBeenLastCalledWith(
+        { theme: "dark", fontSize: 16 },
+        { source: "import" }
+      );
+
+      report = importState({
+        ...document,
+        keys: { prefs: { version: 3, data: {} } },
+      });
+      expect(report).toEqual({
+        imported: [],
+        skipped: [{ key: "prefs", reason: "Version 3 is newer than 2" }],
+      });
+    });
+
+    it("merges into or replaces the current state", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string; page?: number }>(
+          {},
+          { key: "prefs" }
+        )
+      );
+      act(() => result.current[1].setState({ theme: "light", page: 2 }));
+      const document = exportState();
+      document.keys = { prefs: { version: 0, data: { theme: "dark" } } };
+
+      act(() => void importState(document, { mode: "merge" }));
+      expect(result.current[0]).toEqual({ theme: "dark", page: 2 });
+      act(() => void importState(document));
+      expect(result.current[0]).toEqual({ theme: "dark" });
+    });
+
+    it("validates without writing in a dry run", () => {
+      const schema = z.object({ theme: z.enum(["light", "dark"]) });
+      const onChange = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState(
+          { theme: "light" as const },
+          { key: "prefs", schema, onChange }
+        )
+      );
+      const document = exportState();
+      document.keys = {
+        prefs: { version: 0, data: { theme: "blue" } },
+        layout: { version: 0, data: { cols: 2 } },
+      };
+      (document.keys as Record<string, unknown>).broken = { data: [] };
+
+      const report = importState(document, { dryRun: true });
+      expect(report.imported).toEqual(["layout"]);
+      expect(report.skipped).toEqual([
+        { key: "prefs", reason: expect.stringContaining("theme") },
+        { key: "broken", reason: expect.any(String) },
+      ]);
+      expect(window.localStorage.getItem("layout")).toBeNull();
+      expect(result.current[0]).toEqual({ theme: "light" });
+      expect(onChange).not.toHaveBeenCalled();
+      expect(() => importState({ keys: {} })).toThrow(TypeError);
+    });
+
+    it("writes keys without a mounted hook as exported", () => {
+      const storage = createMemoryStorage({
+        layout: JSON.stringify({ __version: 1, __fields: ["cols", "rows"] }),
+        "layout:cols": "2",
+        "layout:rows": "3",
+        prefs: JSON.stringify({ __version: 0, data: { theme: "dark" } }),
+      });
+      const report = importState(
+        {
+          format: "use-local-storage-reacthook",
+          version: 1,
+          exportedAt: new Date().toISOString(),
+          keys: {
+            layout: { version: 1, data: { cols: 4 } },
+            prefs: { version: 1, data: { page: 2 } },
+          },
+        },
+        { storage, mode: "merge" }
+      );
+      expect(report).toEqual({
+        imported: ["layout"],
+        skipped: [{ key: "prefs", reason: "Stored version 0 differs from 1" }],
+      });
+      expect(JSON.parse(storage.getItem("layout") as string)).toEqual({
+        __version: 1,
+        data: { cols: 4, rows: 3 },
+      });
+      expect(storage.getItem("layout:cols")).toBeNull();
+    });
+
+    it("exports from and imports into async backends", async () => {
+      const { storage, store, release } = mockAsyncStorage({
+        prefs: JSON.stringify({ __version: 0, data: { theme: "dark" } }),
+      });
+      release();
+      const document = await exportState({ storage, keys: ["prefs"] });
+      expect(document.keys).toEqual({
+        prefs: { version: 0, data: { theme: "dark" } },
+      });
+      document.keys = { layout: { version: 0, data: { cols: 2 } } };
+      await expect(importState(document, { storage })).resolves.toEqual({
+        imported: ["layout"],
+        skipped: [],
+      });
+      expect(JSON.parse(store.get("layout") as string)).toEqual({
+        __version: 0,
+        data: { cols: 2 },
+      });
+    });
+  });
+
+  describe("namespaces", () => {
+    let namespace = "alice";
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <LocalStorageStateProvider namespace={namespace}>
+        {children}
+      </LocalStorageStateProvider>
+    );
+
+    beforeEach(() => {
+      namespace = "alice";
+    });
+
+    it("stores keys under the provider's namespace", () => {
+      const { result } = renderHook(
+        () => useLocalStorageState<{ theme?: string }>({}, { key: "prefs" }),
+        { wrapper }
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      expect(readStored("alice::prefs")).toEqual({ theme: "dark" });
+      expect(window.localStorage.getItem("prefs")).toBeNull();
+    });
+
+    it("reads the new scope when the namespace changes", () => {
+      window.localStorage.setItem(
+        "bob::prefs",
+        JSON.stringify({ __version: 0, data: { theme: "light" } })
+      );
+      const onChange = vi.fn();
+      const { result, rerender } = renderHook(
+        () =>
+          useLocalStorageState<{ theme?: string }>(
+            {},
+            { key: "prefs", onChange }
+          ),
+        { wrapper }
+      );
+      act(() => result.current[1].set("theme", "dark"));
+
+      namespace = "bob";
+      rerender();
+      expect(result.current[0]).toEqual({ theme: "light" });
+      expect(onChange).toHaveBeenLastCalledWith(
+        { theme: "light" },
+        { source: "namespace" }
+      );
+
+      namespace = "alice";
+      rerender();
+      expect(result.current[0]).toEqual({ theme: "dark" });
+      expect(onChange).toHaveBeenCalledTimes(3);
+    });
+
+    it("writes a pending debounced change to the scope it was made in", () => {
+      vi.useFakeTimers();
+      try {
+        namespace = "alice";
+        const { result, rerender } = renderHook(
+          () =>
+            useLocalStorageState<{ theme?: string }>(
+              {},
+              { key: "prefs", writeStrategy: { debounceMs: 500 } }
+            ),
+          { wrapper }
+        );
+        act(() => result.current[1].set("theme", "alice-secret"));
+
+        namespace = "bob";
+        rerender();
+        act(() => vi.advanceTimersByTime(500));
+        expect(readStored("alice::prefs")).toEqual({ theme: "alice-secret" });
+        expect(readStored("bob::prefs")).toBeUndefined();
+        expect(result.current[0]).toEqual({});
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("provides a storage backend unless the hook passes its own", () => {
+      const provided = createMemoryStorage();
+      const own = createMemoryStorage();
+      const { result } = renderHook(
+        () => ({
+          a: useLocalStorageState<{ theme?: string }>({}, { key: "a" }),
+          b: useLocalStorageState<{ theme?: string }>(
+            {},
+            { key: "b", storage: own }
+          ),
+        }),
+        {
+          wrapper: ({ children }) => (
+            <LocalStorageStateProvider namespace="alice" storage={provided}>
+              <LocalStorageStateProvider namespace="bob">
+                {children}
+              </LocalStorageStateProvider>
+            </LocalStorageStateProvider>
+          ),
+        }
+      );
+      act(() => {
+        result.current.a[1].set("theme", "dark");
+        result.current.b[1].set("theme", "dark");
+      });
+      expect(provided.keys()).toEqual(["bob::a"]);
+      expect(own.keys()).toEqual(["bob::b"]);
+    });
+
+    it("ignores storage events from other namespaces", () => {
+      const onChange = vi.fn();
+      const { result } = renderHook(
+        () =>
+          useLocalStorageState<{ theme?: string }>(
+            {},
+            { key: "prefs", onChange }
+          ),
+        { wrapper }
+      );
+      act(() => {
+        window.localStorage.setItem(
+          "bob::prefs",
+          JSON.stringify({ __version: 0, data: { theme: "dark" } })
+        );
+        window.dispatchEvent(
+          new StorageEvent("storage", { key: "bob::prefs" })
+        );
+      });
+      expect(result.current[0]).toEqual({});
+      expect(onChange).not.toHaveBeenCalled();
+
+      act(() => {
+        window.localStorage.setItem(
+          "alice::prefs",
+          JSON.stringify({ __version: 0, data: { theme: "dark" } })
+        );
+        window.dispatchEvent(
+          new StorageEvent("storage", { key: "alice::prefs" })
+        );
+      });
+      expect(result.current[0]).toEqual({ theme: "dark" });
+    });
+
+    it("clearNamespace removes only the keys of that namespace", () => {
+      const { result } = renderHook(
+        () =>
+          useLocalStorageState<{ theme?: string }>(
+            {},
+            { key: "prefs", history: { persist: true } }
+          ),
+        { wrapper }
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      window.localStorage.setItem("alice::layout", "{}");
+      window.localStorage.setItem("bob::prefs", "{}");
+      window.localStorage.setItem("prefs", "{}");
+
+      let removed: string[] = [];
+      act(() => {
+        removed = clearNamespace("alice");
+      });
+      expect(removed.sort()).toEqual([
+        "alice::layout",
+        "alice::prefs",
+        "alice::prefs__history",
+      ]);
+      expect(window.localStorage.getItem("alice::prefs")).toBeNull();
+      expect(window.localStorage.getItem("bob::prefs")).toBe("{}");
+      expect(window.localStorage.getItem("prefs")).toBe("{}");
+      expect(result.current[0]).toEqual({});
+    });
+  });
+
+  describe("same-tab sync", () => {
+    function renderPair(
+      onChangeA?: (...args: unknown[]) => void,
+      onChangeB?: (...args: unknown[]) => void
+    ) {
+      return renderHook(() => ({
+        a: useLocalStorageState<{ theme?: string; page?: number }>(
+          { theme: "light" },
+          { key: "prefs", onChange: onChangeA }
+        ),
+        b: useLocalStorageState<{ theme?: string; page?: number }>(
+          { theme: "light" },
+          { key: "prefs", onChange: onChangeB }
+        ),
+      }));
+    }
+
+    it("updates other instances with the same key", () => {
+      const { result } = renderPair();
+      act(() => result.current.a[1].set("theme", "dark"));
+      expect(result.current.b[0]).toEqual({ theme: "dark" });
+      act(() => result.current.b[1].patch({ page: 2 }));
+      expect(result.current.a[0]).toEqual({ theme: "dark", page: 2 });
+      act(() => result.current.a[1].remove("page"));
+      expect(result.current.b[0]).toEqual({ theme: "dark" });
+      act(() => result.current.b[1].clear());
+      expect(result.current.a[0]).toEqual({ theme: "light" });
+    });
+
+    it("reports changes from other instances with the sync source", () => {
+      const onChangeA = vi.fn();
+      const onChangeB = vi.fn();
+      const { result } = renderPair(onChangeA, onChangeB);
+      act(() => result.current.a[1].set("theme", "dark"));
+      expect(onChangeA).toHaveBeenCalledWith(
+        { theme: "dark" },
+        { source: "patch" }
+      );
+      expect(onChangeB).toHaveBeenCalledWith(
+        { theme: "dark" },
+        { source: "sync" }
+      );
+    });
+
+    it("does not affect instances with a different key", () => {
+      const { result } = renderHook(() => ({
+        a: useLocalStorageState<{ theme?: string }>({}, { key: "a" }),
+        b: useLocalStorageState<{ theme?: string }>({}, { key: "b" }),
+      }));
+      act(() => result.current.a[1].set("theme", "dark"));
+      expect(result.current.b[0]).toEqual({});
+    });
+
+    it("re-reads storage after every instance unmounts", () => {
+      const first = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>({}, { key: "prefs" })
+      );
+      act(() => first.result.current[1].set("theme", "dark"));
+      first.unmount();
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ __version: 0, data: { theme: "blue" } })
+      );
+      const second = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>({}, { key: "prefs" })
+      );
+      expect(second.result.current[0]).toEqual({ theme: "blue" });
+    });
+  });
+
+  describe("migrate", () => {
+    it("is applied to stored state", () => {
+      window.localStorage.setItem("prefs", JSON.stringify({ theme: "old" }));
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          {},
+          {
+            key: "prefs",
+            version: 2,
+            migrate: (stored, fromVersion) => {
+              const obj = stored as { theme?: string };
+              return fromVersion < 2 && obj.theme === "old"
+                ? { theme: "new" }
+                : obj;
+            },
+          }
+        )
+      );
+      expect(result.current[0]).toEqual({ theme: "new" });
+    });
+  });
+
+  describe("storage adapters", () => {
+    it("persists to an in-memory adapter", () => {
+      const storage = createMemoryStorage();
+      const { result, unmount } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          { theme: "light" },
+          { key: "prefs", storage }
+        )
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      expect(window.localStorage.getItem("prefs")).toBeNull();
+      unmount();
+      const { result: reloaded } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          { theme: "light" },
+          { key: "prefs", storage }
+        )
+      );
+      expect(reloaded.current[0]).toEqual({ theme: "dark" });
+    });
+
+    it("persists to sessionStorage", () => {
+      Object.defineProperty(window, "sessionStorage", {
+        value: mockLocalStorage(),
+        writable: true,
+      });
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          {},
+          { key: "prefs", storage: sessionStorageAdapter }
+        )
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      expect(window.localStorage.getItem("prefs")).toBeNull();
+      expect(
+        JSON.parse(window.sessionStorage.getItem("prefs") || "{}").data
+      ).toEqual({ theme: "dark" });
+    });
+
+    it("persists to cookies", () => {
+      const storage = createCookieStorage();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          {},
+          { key: "cookie-prefs", storage }
+        )
+      );
+      act(() => result.current[1].set("theme", "dark; really"));
+      expect(JSON.parse(storage.getItem("cookie-prefs") || "{}").data).toEqual({
+        theme: "dark; really",
+      });
+      act(() => result.current[1].clear());
+      expect(storage.getItem("cookie-prefs")).toBeNull();
+    });
+
+    it("keeps instances on different backends apart", () => {
+      const storage = createMemoryStorage();
+      const { result } = renderHook(() => ({
+        local: useLocalStorageState<{ theme?: string }>({}, { key: "prefs" }),
+        memory: useLocalStorageState<{ theme?: string }>(
+          {},
+          { key: "prefs", storage }
+        ),
+      }));
+      act(() => result.current.local[1].set("theme", "dark"));
+      expect(result.current.memory[0]).toEqual({});
+    });
+
+    it("ignores storage events for backends that do not emit them", () => {
+      const storage = createMemoryStorage();
+      const onChange = vi.fn();
+      renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          {},
+          { key: "prefs", storage, onChange }
+        )
+      );
+      act(() => {
+        window.dispatchEvent(new StorageEvent("storage", { key: "prefs" }));
+      });
+      expect(onChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("async storage", () => {
+    const stored = (data: object) => JSON.stringify({ __version: 0, data });
+
+    it("renders defaults while loading, then the stored data", async () => {
+      const { storage, release } = mockAsyncStorage({
+        prefs: stored({ theme: "dark" }),
+      });
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          { theme: "light" },
+          { key: "prefs", storage }
+        )
+      );
+      expect(result.current[0]).toEqual({ theme: "light" });
+      expect(result.current[1].status).toBe("loading");
+      await act(async () => release());
+      expect(result.current[0]).toEqual({ theme: "dark" });
+      expect(result.current[1].status).toBe("ready");
+    });
+
+    it("replays writes made before loading finished", async () => {
+      const { storage, store, release } = mockAsyncStorage({
+        prefs: stored({ theme: "dark", page: 1 }),
+      });
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string; page?: number }>(
+          {},
+          { key: "prefs", storage }
+        )
+      );
+      act(() => result.current[1].set("page", 2));
+      expect(result.current[0]).toEqual({ page: 2 });
+      expect(storage.setItem).not.toHaveBeenCalled();
+      await act(async () => release());
+      expect(result.current[0]).toEqual({ theme: "dark", page: 2 });
+      await waitFor(() =>
+        expect(JSON.parse(store.get("prefs") || "{}").data).toEqual({
+          theme: "dark",
+          page: 2,
+        })
+      );
+    });
+
+    it("applies writes in order", async () => {
+      const { storage, store, release } = mockAsyncStorage();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ count?: number }>({}, { key: "prefs", storage })
+      );
+      await act(async () => release());
+      act(() => {
+        result.current[1].set("count", 1);
+        result.current[1].set("count", 2);
+        result.current[1].set("count", 3);
+      });
+      await waitFor(() => expect(storage.setItem).toHaveBeenCalledTimes(3));
+      expect(JSON.parse(store.get("prefs") || "{}").data).toEqual({ count: 3 });
+    });
+
+    it("removes the stored data when cleared while loading", async () => {
+      const { storage, store, release } = mockAsyncStorage({
+        prefs: JSON.stringify({ __version: 0, data: { count: 1 } }),
+      });
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ count?: number }>(
+          { count: 0 },
+          { key: "prefs", storage }
+        )
+      );
+      act(() => result.current[1].set("count", 2));
+      act(() => result.current[1].clear());
+      await act(async () => release());
+      await waitFor(() => expect(storage.removeItem).toHaveBeenCalled());
+      expect(store.has("prefs")).toBe(false);
+      expect(storage.setItem).not.toHaveBeenCalled();
+      expect(result.current[0]).toEqual({ count: 0 });
+    });
+
+    it("reports a failed read through the status", async () => {
+      const { storage } = mockAsyncStorage();
+      storage.getItem = vi.fn(() => Promise.reject(new Error("boom")));
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          { theme: "light" },
+          { key: "prefs", storage }
+        )
+      );
+      await waitFor(() => expect(result.current[1].status).toBe("error"));
+      expect(result.current[0]).toEqual({ theme: "light" });
+    });
+
+    it("persists to IndexedDB", async () => {
+      const storage = createIndexedDBStorage({ dbName: "test-db" });
+      const first = renderHook(() =>
+        useLocalStorageState<{ draft?: string }>({}, { key: "draft", storage })
+      );
+      await waitFor(() => expect(first.result.current[1].status).toBe("ready"));
+      act(() => first.result.current[1].set("draft", "hello"));
+      await waitFor(async () =>
+        expect(await storage.getItem("draft")).not.toBeNull()
+      );
+      first.unmount();
+
+      const second = renderHook(() =>
+        useLocalStorageState<{ draft?: string }>({}, { key: "draft", storage })
+      );
+      await waitFor(() =>
+        expect(second.result.current[0]).toEqual({ draft: "hello" })
+      );
+    });
+  });
+
+  describe("hydrate", () => {
+    function Theme({ hydrate }: { hydrate: "immediate" | "deferred" }) {
+      const [prefs, api] = useLocalStorageState<{ theme?: string }>(
+        { theme: "light" },
+        { key: "prefs", hydrate }
+      );
+      return (
+        <span>
+          {prefs.theme}:{api.status}
+        </span>
+      );
+    }
+
+    it("renders defaults on the server and applies storage after hydrating", async () => {
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ __version: 0, data: { theme: "dark" } })
+      );
+      const html = renderToString(<Theme hydrate="deferred" />);
+      expect(html).toContain("light<!-- -->:<!-- -->loading");
+
+      const container = document.createElement("div");
+      container.innerHTML = html;
+      const onRecoverableError = vi.fn();
+      const root = await act(async () =>
+        hydrateRoot(container, <Theme hydrate="deferred" />, {
+          onRecoverableError,
+        })
+      );
+      expect(onRecoverableError).not.toHaveBeenCalled();
+      expect(container.textContent).toBe("dark:ready");
+      act(() => root.unmount());
+    });
+
+    it("renders defaults first on the client when deferred", () => {
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ __version: 0, data: { theme: "dark" } })
+      );
+      const renders: string[] = [];
+      renderHook(() => {
+        const [prefs, api] = useLocalStorageState<{ theme?: string }>(
+          { theme: "light" },
+          { key: "prefs", hydrate: "deferred" }
+        );
+        renders.push(`${prefs.theme}:${api.status}`);
+      });
+      expect(renders[0]).toBe("light:loading");
+      expect(renders[renders.length - 1]).toBe("dark:ready");
+    });
+
+    it("reads storage during the first render by default", () => {
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ __version: 0, data: { theme: "dark" } })
+      );
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          { theme: "light" },
+          { key: "prefs" }
+        )
+      );
+      expect(result.current[0]).toEqual({ theme: "dark" });
+      expect(result.current[1].status).toBe("ready");
+    });
+  });
+
+  describe("persist", () => {
+    type Settings = { theme: string; saving: boolean; tab?: string };
+
+    it("never writes excluded fields", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<Settings>(
+          { theme: "light", saving: false },
+          { key: "settings", persist: { exclude: ["saving", "tab"] } }
+        )
+      );
+      act(() => result.current[1].patch({ theme: "dark", saving: true }));
+      act(() => result.current[1].set("tab", "general"));
+      expect(result.current[1].get("saving")).toBe(true);
+      expect(result.current[0]).toEqual({
+        theme: "dark",
+        saving: true,
+        tab: "general",
+      });
+      expect(readStored("settings")).toEqual({ theme: "dark" });
+    });
+
+    it("writes only included fields", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<Settings>(
+          { theme: "light", saving: false },
+          { key: "settings", persist: { include: ["theme"] } }
+        )
+      );
+      act(() => result.current[1].setState((prev) => ({ ...prev, tab: "a" })));
+      expect(readStored("settings")).toEqual({ theme: "light" });
+    });
+
+    it("writes what partialize returns", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<Settings>(
+          { theme: "light", saving: false },
+          {
+            key: "settings",
+            persist: { include: ["saving"] },
+            partialize: ({ theme }) => ({ theme }),
+          }
+        )
+      );
+      act(() => result.current[1].set("saving", true));
+      expect(readStored("settings")).toEqual({ theme: "light" });
+    });
+
+    it("keeps fields that are not persisted on changes from other tabs", () => {
+      const onChange = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<Settings>(
+          { theme: "light", saving: false },
+          {
+            key: "settings",
+            persist: { exclude: ["saving"] },
+            onChange,
+          }
+        )
+      );
+      act(() => result.current[1].set("saving", true));
+      act(() => {
+        window.localStorage.setItem(
+          "settings",
+          JSON.stringify({ __version: 0, data: { theme: "dark" } })
+        );
+        window.dispatchEvent(new StorageEvent("storage", { key: "settings" }));
+      });
+      expect(result.current[0]).toEqual({ theme: "dark", saving: true });
+      expect(onChange).toHaveBeenLastCalledWith(
+        { theme: "dark", saving: true },
+        { source: "external" }
+      );
+    });
+  });
+
+  describe("codecs", () => {
+    type Rich = {
+      at?: Date;
+      tags?: Set<string>;
+      counts?: Map<string, number>;
+      big?: bigint;
+    };
+    const codecs = {
+      at: dateCodec(),
+      tags: setCodec<string>(),
+      counts: mapCodec<string, number>(),
+      big: bigintCodec(),
+    };
+
+    it("formats fields on write", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<Rich>({}, { key: "prefs", codecs })
+      );
+      act(() =>
+        result.current[1].patch({
+          at: new Date("2024-01-02T03:04:05.000Z"),
+          tags: new Set(["a", "b"]),
+          counts: new Map([["x", 1]]),
+          big: BigInt("9007199254740993"),
+        })
+      );
+      expect(readStored("prefs")).toEqual({
+        at: "2024-01-02T03:04:05.000Z",
+        tags: '["a","b"]',
+        counts: '[["x",1]]',
+        big: "9007199254740993",
+      });
+    });
+
+    it("parses fields on read", () => {
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({
+          at: "2024-01-02T03:04:05.000Z",
+          tags: '["a","b"]',
+          counts: '[["x",1]]',
+          big: "9007199254740993",
+        })
+      );
+      const { result } = renderHook(() =>
+        useLocalStorageState<Rich>({}, { key: "prefs", codecs })
+      );
+      const state = result.current[0];
+      expect(state.at).toEqual(new Date("2024-01-02T03:04:05.000Z"));
+      expect(state.tags).toEqual(new Set(["a", "b"]));
+      expect(state.counts).toEqual(new Map([["x", 1]]));
+      expect(state.big).toBe(BigInt("9007199254740993"));
+    });
+
+    it("falls back to the default for a field whose codec throws", () => {
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ at: "not a date", big: "12", tags: {} })
+      );
+      const fallback = new Date("2020-01-01T00:00:00.000Z");
+      const { result } = renderHook(() =>
+        useLocalStorageState<Rich>(
+          { at: fallback, tags: new Set(["default"]) },
+          { key: "prefs", codecs }
+        )
       );
-      act(() => result.current[1].set("theme", "dark"));
-      expect(window.localStorage.getItem("prefs")).toBeDefined();
-      const parsed = JSON.parse(window.localStorage.getItem("prefs") || "{}");
-      expect(parsed).toEqual({ theme: "dark" });
+      expect(result.current[0].at).toBe(fallback);
+      expect(result.current[0].tags).toEqual(new Set(["default"]));
+      expect(result.current[0].big).toBe(BigInt(12));
     });
   });
 
-  describe("onChange", () => {
-    it("called with correct state and source", () => {
-      const onChange = vi.fn();
+  describe("schema", () => {
+    const schema = z.object({
+      theme: z.enum(["light", "dark"]),
+      fontSize: z.number().min(8),
+    });
+    const defaults = { theme: "light" as const, fontSize: 12 };
+    const store = (data: object) =>
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ __version: 0, data })
+      );
+
+    it("loads valid stored data", () => {
+      store({ theme: "dark", fontSize: 16 });
       const { result } = renderHook(() =>
-        useLocalStorageState<{ theme?: string; page?: number }>(
-          {},
-          {
-            key: "prefs",
-            onChange,
-          }
-        )
+        useLocalStorageState(defaults, { key: "prefs", schema })
       );
-      act(() => result.current[1].patch({ theme: "dark" }));
-      act(() => result.current[1].set("page", 3));
-      const sources = onChange.mock.calls.map((c) => c[1].source);
-      expect(sources).toEqual(["patch", "patch"]);
-      const states = onChange.mock.calls.map((c) => c[0]);
-      expect(states[0]).toEqual({ theme: "dark" });
-      expect(states[1]).toEqual({ theme: "dark", page: 3 });
+      expect(result.current[0]).toEqual({ theme: "dark", fontSize: 16 });
+      expect(result.current[1].error).toBeNull();
     });
-  });
 
-  describe("syncAcrossTabs", () => {
-    it("updates on storage event (single)", () => {
+    it("falls back to the default for each invalid field", () => {
+      store({ theme: "blue", fontSize: 16 });
+      const onError = vi.fn();
       const { result } = renderHook(() =>
-        useLocalStorageState<{ theme?: string }>(
-          {},
-          {
-            key: "prefs",
-            syncAcrossTabs: true,
-          }
-        )
+        useLocalStorageState(defaults, { key: "prefs", schema, onError })
       );
-      act(() => {
-        window.localStorage.setItem("prefs", JSON.stringify({ theme: "dark" }));
-        window.dispatchEvent(
-          new StorageEvent("storage", {
-            key: "prefs",
-            newValue: JSON.stringify({ theme: "dark" }),
-          })
-        );
+      expect(result.current[0]).toEqual({ theme: "light", fontSize: 16 });
+      const error = onError.mock.calls[0]?.[0];
+      expect(error).toBeInstanceOf(StorageValidationError);
+      expect(error.issues[0].path).toEqual(["theme"]);
+      expect(onError.mock.calls[0]?.[1]).toEqual({
+        operation: "validate",
+        key: "prefs",
       });
-      expect(result.current[0]).toEqual({ theme: "dark" });
     });
-  });
 
-  describe("migrate", () => {
-    it("is applied to stored state (single)", () => {
-      window.localStorage.setItem("prefs", JSON.stringify({ theme: "old" }));
+    it("rejects invalid writes when validateWrites is set", () => {
       const { result } = renderHook(() =>
-        useLocalStorageState<{ theme?: string }>(
-          {},
-          {
-            key: "prefs",
-            version: 2,
-            migrate: (stored, version) => {
-              const obj = stored as { theme?: string };
-              return version >= 2 && obj.theme === "old"
-                ? { theme: "new" }
-                : obj;
-            },
-          }
-        )
+        useLocalStorageState(defaults, {
+          key: "prefs",
+          schema,
+          validateWrites: true,
+        })
       );
-      expect(result.current[0]).toEqual({ theme: "new" });
+      act(() => result.current[1].set("fontSize", 2));
+      expect(result.current[0]).toEqual(defaults);
+      expect(result.current[1].error).toBeInstanceOf(StorageValidationError);
+      expect(window.localStorage.getItem("prefs")).toBeNull();
+
+      act(() => result.current[1].set("fontSize", 14));
+      expect(result.current[0]).toEqual({ theme: "light", fontSize: 14 });
+      expect(result.current[1].error).toBeNull();
     });
   });
 
@@ -136,7 +2438,7 @@ describe("useLocalStorageState", () => {
       );
       act(() => result.current[1].patch({ theme: "dark", page: 2 }));
       act(() => result.current[1].remove("theme"));
-      const parsed = JSON.parse(window.localStorage.getItem("prefs") || "{}");
+      const parsed = readStored("prefs");
       expect(parsed.theme).toBeUndefined();
     });
 
@@ -153,7 +2455,7 @@ describe("useLocalStorageState", () => {
         result.current[1].patch({ theme: "dark", page: 2, sort: "asc" })
       );
       act(() => result.current[1].remove("theme", "page"));
-      const parsed = JSON.parse(window.localStorage.getItem("prefs") || "{}");
+      const parsed = readStored("prefs");
       expect(parsed.theme).toBeUndefined();
       expect(parsed.page).toBeUndefined();
       expect(parsed.sort).toBe("asc");
@@ -172,6 +2474,68 @@ describe("useLocalStorageState", () => {
       act(() => result.current[1].clear());
       expect(window.localStorage.getItem("prefs")).toBeNull();
     });
+
+    it("clear goes back to the defaults and notifies every instance", () => {
+      const onChangeA = vi.fn();
+      const onChangeB = vi.fn();
+      const { result } = renderHook(() => ({
+        a: useLocalStorageState<{ theme: string; page?: number }>(
+          { theme: "light" },
+          { key: "prefs", onChange: onChangeA }
+        ),
+        b: useLocalStorageState<{ theme: string; page?: number }>(
+          { theme: "light" },
+          { key: "prefs", onChange: onChangeB }
+        ),
+      }));
+      act(() => result.current.a[1].patch({ theme: "dark", page: 2 }));
+      act(() => result.current.a[1].clear());
+      expect(result.current.a[0]).toEqual({ theme: "light" });
+      expect(result.current.b[0]).toEqual({ theme: "light" });
+      expect(onChangeA).toHaveBeenLastCalledWith(
+        { theme: "light" },
+        { source: "clear" }
+      );
+      expect(onChangeB).toHaveBeenLastCalledWith(
+        { theme: "light" },
+        { source: "sync" }
+      );
+    });
+
+    it("clear leaves an empty object with clearTo: empty", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          { theme: "light" },
+          { key: "prefs", clearTo: "empty" }
+        )
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      act(() => result.current[1].clear());
+      expect(result.current[0]).toEqual({});
+      expect(window.localStorage.getItem("prefs")).toBeNull();
+    });
+
+    it("reset restores the given fields, or all, to their defaults", () => {
+      const onChange = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme: string; page: number; sort?: string }>(
+          { theme: "light", page: 1 },
+          { key: "prefs", onChange }
+        )
+      );
+      act(() =>
+        result.current[1].patch({ theme: "dark", page: 3, sort: "asc" })
+      );
+      act(() => result.current[1].reset(["page", "sort"]));
+      expect(result.current[0]).toEqual({ theme: "dark", page: 1 });
+      expect(readStored("prefs")).toEqual({ theme: "dark", page: 1 });
+      expect(onChange).toHaveBeenLastCalledWith(
+        { theme: "dark", page: 1 },
+        { source: "reset" }
+      );
+      act(() => result.current[1].reset());
+      expect(result.current[0]).toEqual({ theme: "light", page: 1 });
+    });
   });
 
   describe("function-based defaults", () => {
@@ -187,6 +2551,316 @@ describe("useLocalStorageState", () => {
     });
   });
 
+  describe("quota", () => {
+    type Notes = { text?: string };
+    const size = (storage: Storage, key: string) =>
+      (key.length + (storage.getItem(key)?.length ?? 0)) * 2;
+
+    function renderNotes(
+      key: string,
+      storage: ReturnType<typeof createMockStorage>,
+      options: Partial<LocalStorageStateOptions<Notes>> = {}
+    ) {
+      return renderHook(() =>
+        useLocalStorageState<Notes>({}, { key, storage, ...options })
+      );
+    }
+
+    it("reports the bytes taken by each key", () => {
+      const storage = createMockStorage({ other: "x" });
+      const { result: notes } = renderNotes("notes", storage);
+      const { result: prefs } = renderNotes("prefs", storage);
+      renderNotes("empty", storage);
+      act(() => notes.current[1].set("text", "a".repeat(100)));
+      act(() => prefs.current[1].set("text", "b"));
+
+      const usage = getStorageUsage(storage);
+      expect(usage.keys.map(({ key }) => key)).toEqual(["notes", "prefs"]);
+      expect(usage.keys[0]?.bytes).toBe(size(storage, "notes"));
+      expect(usage.total).toBe(
+        size(storage, "notes") + size(storage, "prefs") + size(storage, "other")
+      );
+    });
+
+    it("evicts the least recently used keys of unmounted consumers", () => {
+      const storage = createMockStorage();
+      for (const key of ["oldest", "older"]) {
+        const { result, unmount } = renderNotes(key, storage);
+        act(() => result.current[1].set("text", "a".repeat(200)));
+        unmount();
+      }
+      const { result: mounted } = renderNotes("mounted", storage);
+      act(() => mounted.current[1].set("text", "a".repeat(200)));
+      storage.setQuota(getStorageUsage(storage).total + 40);
+
+      const onError = vi.fn();
+      const { result } = renderNotes("draft", storage, {
+        quotaPolicy: "evict-lru",
+        onError,
+      });
+      act(() => result.current[1].set("text", "b".repeat(50)));
+      expect(onError).not.toHaveBeenCalled();
+      expect(storage.getItem("oldest")).toBeNull();
+      expect(storage.getItem("older")).not.toBeNull();
+      expect(storage.getItem("mounted")).not.toBeNull();
+      expect(readState("draft", storage)?.data).toEqual({
+        text: "b".repeat(50),
+      });
+    });
+
+    it("evicts expired state", () => {
+      const storage = createMockStorage({
+        stale: JSON.stringify({
+          __version: 0,
+          data: { text: "a".repeat(200) },
+          __expiresAt: Date.now() - 1,
+        }),
+      });
+      storage.setQuota(size(storage, "stale") + 40);
+      const { result } = renderNotes("draft", storage, {
+        quotaPolicy: "evict-expired",
+      });
+      act(() => result.current[1].set("text", "b".repeat(50)));
+      expect(result.current[1].error).toBeNull();
+      expect(storage.getItem("stale")).toBeNull();
+    });
+
+    it("drops the oldest history steps until the history fits", () => {
+      const storage = createMockStorage();
+      const { result } = renderNotes("notes", storage, {
+        history: { persist: true },
+        quotaPolicy: "drop-oldest-history",
+      });
+      for (const char of "abcde") {
+        act(() => result.current[1].set("text", char.repeat(100)));
+      }
+      storage.setQuota(getStorageUsage(storage).total);
+      act(() => result.current[1].set("text", "f".repeat(100)));
+      expect(result.current[1].error).toBeNull();
+      expect(readState("notes", storage)?.data).toEqual({
+        text: "f".repeat(100),
+      });
+      const past = (
+        readState("notes__history", storage)?.data as {
+          past: unknown[];
+        }
+      ).past;
+      expect(past.length).toBeGreaterThan(0);
+      expect(past.length).toBeLessThan(6);
+      expect(past[past.length - 1]).toEqual({ text: "e".repeat(100) });
+    });
+
+    it("remembers when keys were used on earlier visits", () => {
+      const stored = (text: string) =>
+        JSON.stringify({ __version: 0, data: { text } });
+      const storage = createMockStorage({
+        "use-local-storage-reacthook:lastUsed": JSON.stringify({
+          recent: 2000,
+          old: 1000,
+        }),
+        old: stored("a".repeat(200)),
+        recent: stored("a".repeat(200)),
+      });
+      expect(getStorageUsage(storage).keys).toEqual([
+        { key: "recent", bytes: size(storage, "recent"), lastUsed: 2000 },
+        { key: "old", bytes: size(storage, "old"), lastUsed: 1000 },
+      ]);
+
+      storage.setQuota(getStorageUsage(storage).total + 40);
+      const { result } = renderNotes("draft", storage, {
+        quotaPolicy: "evict-lru",
+      });
+      act(() => result.current[1].set("text", "b".repeat(50)));
+      expect(result.current[1].error).toBeNull();
+      expect(storage.getItem("old")).toBeNull();
+      expect(storage.getItem("recent")).not.toBeNull();
+    });
+
+    it("only saves when keys were used for evict-lru, outside cookies", () => {
+      const lastUsed = "use-local-storage-reacthook:lastUsed";
+      const storage = createMockStorage();
+      const { result: notes } = renderNotes("notes", storage);
+      act(() => notes.current[1].set("text", "a"));
+      expect(storage.getItem(lastUsed)).toBeNull();
+
+      const { result: draft } = renderNotes("draft", storage, {
+        quotaPolicy: "evict-lru",
+      });
+      expect(storage.getItem(lastUsed)).toBeNull();
+      act(() => draft.current[1].set("text", "b"));
+      expect(
+        Object.keys(JSON.parse(storage.getItem(lastUsed) ?? "{}"))
+      ).toEqual(["notes", "draft"]);
+
+      const cookies = createCookieStorage();
+      const { result: cookie } = renderHook(() =>
+        useLocalStorageState<Notes>(
+          {},
+          { key: "notes", storage: cookies, quotaPolicy: "evict-lru" }
+        )
+      );
+      act(() => cookie.current[1].set("text", "c"));
+      expect(cookies.getItem(lastUsed)).toBeNull();
+    });
+
+    it("does not track keys during server rendering", () => {
+      const storage = createMockStorage();
+      seedState("notes", { text: "a" }, { storage });
+      function Notes() {
+        useLocalStorageState<Notes>({}, { key: "notes", storage });
+        return null;
+      }
+      vi.stubGlobal("window", undefined);
+      try {
+        renderToString(<Notes />);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+      expect(getStorageUsage(storage).keys).toEqual([]);
+      expect(
+        storage.getItem("use-local-storage-reacthook:lastUsed")
+      ).toBeNull();
+    });
+
+    it("fails with a quota error by default", () => {
+      const storage = createMockStorage();
+      storage.setQuota(10);
+      const { result } = renderNotes("notes", storage);
+      act(() => result.current[1].set("text", "a"));
+      expect(result.current[1].error).toBeInstanceOf(StorageQuotaExceededError);
+    });
+  });
+
+  describe("testing utilities", () => {
+    type Prefs = { theme?: string; page?: number };
+
+    it("seeds state at a schema version for migrations", () => {
+      const storage = installMockStorage();
+      seedState("prefs", { oldTheme: "dark" }, { version: 1 });
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>(
+          {},
+          {
+            key: "prefs",
+            version: 2,
+            migrate: (stored) => ({
+              theme: (stored as { oldTheme: string }).oldTheme,
+            }),
+          }
+        )
+      );
+      expect(result.current[0]).toEqual({ theme: "dark" });
+      act(() => result.current[1].set("page", 2));
+      expect(readState("prefs", storage)).toEqual({
+        version: 2,
+        data: { theme: "dark", page: 2 },
+      });
+    });
+
+    it("injects quota errors for a number of writes", () => {
+      const storage = createMockStorage();
+      storage.injectFailure("quota", { keys: ["prefs"], times: 1 });
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>({}, { key: "prefs", storage })
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      expect(result.current[1].error).toBeInstanceOf(StorageQuotaExceededError);
+      act(() => result.current[1].set("theme", "light"));
+      expect(result.current[1].error).toBeNull();
+      expect(readState("prefs", storage)?.data).toEqual({ theme: "light" });
+    });
+
+    it("injects unavailable storage and corrupted values", () => {
+      const storage = installMockStorage();
+      seedState("prefs", { theme: "dark" });
+      storage.injectFailure("corrupted", { keys: ["prefs"] });
+      const { result: corrupted } = renderHook(() =>
+        useLocalStorageState<Prefs>({ theme: "light" }, { key: "prefs" })
+      );
+      expect(corrupted.current[0]).toEqual({ theme: "light" });
+      expect(corrupted.current[1].error).toBeInstanceOf(StorageParseError);
+
+      storage.clearFailures();
+      storage.injectFailure("unavailable");
+      const { result: unavailable } = renderHook(() =>
+        useLocalStorageState<Prefs>({ theme: "light" }, { key: "other" })
+      );
+      expect(unavailable.current[1].error).toBeInstanceOf(StorageReadError);
+      expect(() => storage.setItem("other", "{}")).toThrow(DOMException);
+    });
+
+    it("simulates another tab writing and removing a key", () => {
+      const storage = installMockStorage();
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>({ page: 1 }, { key: "prefs" })
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      act(() => simulateTabWrite("prefs", { theme: "light", page: 3 }));
+      expect(result.current[0]).toEqual({ theme: "light", page: 3 });
+      expect(readState("prefs", storage)?.data).toEqual({
+        theme: "light",
+        page: 3,
+      });
+      act(() => simulateTabWrite("prefs", null));
+      expect(result.current[0]).toEqual({ page: 1 });
+    });
+
+    it("simulates another tab with the broadcast-channel transport", async () => {
+      installMockStorage();
+      const { result } = renderHook(() =>
+        useLocalStorageState<Prefs>(
+          {},
+          { key: "prefs", syncTransport: "broadcast-channel" }
+        )
+      );
+      act(() => result.current[1].set("page", 2));
+      act(() => simulateTabWrite("prefs", { theme: "dark" }));
+      await waitFor(() => expect(result.current[0]).toEqual({ theme: "dark" }));
+    });
+
+    it("advances fake timers for debounced writes and expiry", async () => {
+      vi.useFakeTimers();
+      try {
+        const storage = installMockStorage();
+        const { result } = renderHook(() =>
+          useLocalStorageState<Prefs>(
+            {},
+            { key: "prefs", ttl: 1000, writeStrategy: { debounceMs: 100 } }
+          )
+        );
+        act(() => result.current[1].set("theme", "dark"));
+        expect(storage.getItem("prefs")).toBeNull();
+        await advanceTime(vi, 100);
+        expect(readState("prefs", storage)?.data).toEqual({ theme: "dark" });
+        await advanceTime(vi, 1000);
+        expect(result.current[0]).toEqual({});
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("settles the async writes it runs", async () => {
+      vi.useFakeTimers();
+      try {
+        const { storage, store, release } = mockAsyncStorage();
+        const { result } = renderHook(() =>
+          useLocalStorageState<Prefs>(
+            {},
+            { key: "prefs", storage, writeStrategy: { debounceMs: 100 } }
+          )
+        );
+        await act(async () => release());
+        act(() => result.current[1].set("theme", "dark"));
+        await advanceTime(vi, 100);
+        expect(JSON.parse(store.get("prefs") ?? "{}").data).toEqual({
+          theme: "dark",
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
   describe("error handling", () => {
     it("handles localStorage unavailable gracefully", () => {
       const originalLocalStorage = window.localStorage;
@@ -245,15 +2919,120 @@ describe("useLocalStorageState", () => {
     });
   });
 
+  describe("onError", () => {
+    it("reports a failed write and exposes it until the next success", () => {
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>({}, { key: "prefs", onError })
+      );
+      const setItem = window.localStorage.setItem;
+      window.localStorage.setItem = vi.fn(() => {
+        throw new DOMException("full", "QuotaExceededError");
+      });
+      act(() => result.current[1].set("theme", "dark"));
+      expect(result.current[0]).toEqual({ theme: "dark" });
+      expect(result.current[1].error).toBeInstanceOf(StorageQuotaExceededError);
+      expect(onError).toHaveBeenCalledWith(expect.any(StorageWriteError), {
+        operation: "write",
+        key: "prefs",
+      });
+
+      window.localStorage.setItem = setItem;
+      act(() => result.current[1].set("theme", "light"));
+      expect(result.current[1].error).toBeNull();
+    });
+
+    it("reports a failed read", () => {
+      window.localStorage.getItem = vi.fn(() => {
+        throw new DOMException("denied", "SecurityError");
+      });
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          { theme: "light" },
+          { key: "prefs", onError }
+        )
+      );
+      expect(result.current[0]).toEqual({ theme: "light" });
+      expect(result.current[1].error).toBeInstanceOf(StorageReadError);
+      expect(onError.mock.calls[0]?.[1]).toEqual({
+        operation: "read",
+        key: "prefs",
+      });
+    });
+
+    it("reports corrupted values and codec failures as parse errors", () => {
+      const onError = vi.fn();
+      window.localStorage.setItem("prefs", "invalid-json");
+      renderHook(() =>
+        useLocalStorageState<{ theme?: string }>({}, { key: "prefs", onError })
+      );
+      expect(onError.mock.calls[0]?.[0]).toBeInstanceOf(StorageParseError);
+
+      window.localStorage.setItem(
+        "dates",
+        JSON.stringify({ __version: 0, data: { at: "not a date" } })
+      );
+      renderHook(() =>
+        useLocalStorageState<{ at?: Date }>(
+          {},
+          { key: "dates", codecs: { at: dateCodec() }, onError }
+        )
+      );
+      expect(onError.mock.calls[1]?.[0]).toBeInstanceOf(StorageParseError);
+      expect(onError.mock.calls[1]?.[0].message).toContain('"dates.at"');
+    });
+
+    it("reports failed migrations", () => {
+      window.localStorage.setItem("prefs", JSON.stringify({ theme: "dark" }));
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          { theme: "light" },
+          {
+            key: "prefs",
+            version: 2,
+            migrate: () => {
+              throw new Error("Migration failed");
+            },
+            onError,
+          }
+        )
+      );
+      const error = result.current[1].error;
+      expect(error).toBeInstanceOf(StorageMigrationError);
+      expect(error).toMatchObject({ fromVersion: 0, toVersion: 2 });
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports failed async writes", async () => {
+      const { storage, release } = mockAsyncStorage();
+      storage.setItem = vi.fn(() => Promise.reject(new Error("disk full")));
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          {},
+          { key: "prefs", storage, onError }
+        )
+      );
+      await act(async () => release());
+      act(() => result.current[1].set("theme", "dark"));
+      await waitFor(() =>
+        expect(result.current[1].error).toBeInstanceOf(StorageWriteError)
+      );
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("version migration", () => {
-    it("applies migration when version matches", () => {
+    it("applies migration from the stored version", () => {
       window.localStorage.setItem(
         "prefs",
         JSON.stringify({ oldTheme: "dark" })
       );
-      const migrate = vi.fn((stored, version) => {
+      const migrate = vi.fn((stored, fromVersion) => {
         const obj = stored as { oldTheme?: string };
-        return version >= 2 ? { theme: obj.oldTheme } : obj;
+        return fromVersion < 2 ? { theme: obj.oldTheme } : obj;
       });
       const { result } = renderHook(() =>
         useLocalStorageState<{ theme?: string; oldTheme?: string }>(
@@ -265,14 +3044,14 @@ describe("useLocalStorageState", () => {
           }
         )
       );
-      expect(migrate).toHaveBeenCalledWith({ oldTheme: "dark" }, 2);
+      expect(migrate).toHaveBeenCalledWith({ oldTheme: "dark" }, 0);
       expect(result.current[0]).toEqual({ theme: "dark" });
     });
 
-    it("skips migration when version is lower", () => {
+    it("skips migration when stored version is current", () => {
       window.localStorage.setItem(
         "prefs",
-        JSON.stringify({ theme: "original" })
+        JSON.stringify({ __version: 1, data: { theme: "original" } })
       );
       const migrate = vi.fn(() => ({ theme: "migrated" }));
       const { result } = renderHook(() =>
@@ -285,8 +3064,80 @@ describe("useLocalStorageState", () => {
           }
         )
       );
-      expect(migrate).toHaveBeenCalledWith({ theme: "original" }, 1);
-      expect(result.current[0]).toEqual({ theme: "migrated" });
+      expect(migrate).not.toHaveBeenCalled();
+      expect(result.current[0]).toEqual({ theme: "original" });
+    });
+
+    it("stores the version alongside the data", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          {},
+          { key: "prefs", version: 3 }
+        )
+      );
+      act(() => result.current[1].set("theme", "dark"));
+      expect(JSON.parse(window.localStorage.getItem("prefs") || "{}")).toEqual({
+        __version: 3,
+        data: { theme: "dark" },
+        __revision: { counter: 1, tab: expect.any(String) },
+      });
+    });
+
+    it("runs migration steps in order and writes the result back", () => {
+      window.localStorage.setItem(
+        "prefs",
+        JSON.stringify({ __version: 1, data: { color: "dark" } })
+      );
+      const step2 = vi.fn((stored: unknown) => {
+        const { color, ...rest } = stored as { color?: string };
+        return { ...rest, theme: color };
+      });
+      const step3 = vi.fn((stored: unknown) => ({
+        ...(stored as object),
+        fontSize: 14,
+      }));
+      const step1 = vi.fn((stored: unknown) => stored);
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string; fontSize?: number }>(
+          {},
+          {
+            key: "prefs",
+            version: 3,
+            migrations: { 1: step1, 2: step2, 3: step3 },
+          }
+        )
+      );
+      expect(step1).not.toHaveBeenCalled();
+      expect(step2).toHaveBeenCalledWith({ color: "dark" });
+      expect(step3).toHaveBeenCalledWith({ theme: "dark" });
+      expect(result.current[0]).toEqual({ theme: "dark", fontSize: 14 });
+      expect(JSON.parse(window.localStorage.getItem("prefs") || "{}")).toEqual({
+        __version: 3,
+        data: { theme: "dark", fontSize: 14 },
+        __revision: { counter: 1, tab: expect.any(String) },
+      });
+    });
+
+    it("keeps the raw value aside when a migration step fails", () => {
+      const raw = JSON.stringify({ theme: "dark" });
+      window.localStorage.setItem("prefs", raw);
+      const { result } = renderHook(() =>
+        useLocalStorageState<{ theme?: string }>(
+          { theme: "light" },
+          {
+            key: "prefs",
+            version: 1,
+            migrationFallback: "backup",
+            migrations: {
+              1: () => {
+                throw new Error("Migration failed");
+              },
+            },
+          }
+        )
+      );
+      expect(result.current[0]).toEqual({ theme: "light" });
+      expect(window.localStorage.getItem("prefs__backup")).toBe(raw);
     });
 
     it("handles migration function errors", () => {
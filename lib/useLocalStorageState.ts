@@ -1,22 +1,23 @@
 import * as React from "react";
+import { createStateCore, resolveCoreConfig } from "./createStateCore";
+import { LocalStorageStateContext } from "./LocalStorageStateProvider";
+import { localStorageAdapter } from "./storage/webStorage";
 import {
   DeepPartial,
   LocalStorageApiActions,
   LocalStorageStateOptions,
 } from "./types";
-import { isLocalStorageAvailable } from "./utils/isLocalStorageAvailable";
-import { mergeWithDefaults } from "./utils/mergeWithDefaults";
-import { readLocalStorage } from "./utils/readLocalStorage";
-import { removeLocalStorage } from "./utils/removeLocalStorage";
+import { namespacedKey } from "./utils/envelope";
 import { resolveDefaults } from "./utils/resolveDefaults";
-import { defaultDeserialize, defaultSerialize } from "./utils/serialization";
-import { writeLocalStorage } from "./utils/writeLocalStorage";
+import { SyncSnapshot } from "./utils/syncRegistry";
 
 /**
  * A React hook for managing state that's automatically persisted to localStorage.
  *
  * This hook provides a powerful interface for storing complex objects in localStorage
  * with support for default values, data migration, cross-tab synchronization, and more.
+ * Every mounted instance using the same `key` shares one state, so a change made through
+ * one of them is visible in the others immediately.
  *
  * @template T - The type of the state object. Must extend Record<string, unknown>
  *
@@ -25,13 +26,74 @@ import { writeLocalStorage } from "./utils/writeLocalStorage";
  *   - A function that returns default values (useful for expensive computations)
  *
  * @param options - Configuration options for the hook
- * @param options.key - The localStorage key to store the data under
- * @param options.codecs - Optional custom serialization/deserialization functions for specific properties
+ * @param options.key - The storage key to store the data under. Inside a `LocalStorageStateProvider` with a
+ *   `namespace`, the data is stored under `${namespace}::${key}`
+ * @param options.storage - Backend to persist to (default: the provider's `storage`, or `localStorageAdapter`). Built-in adapters cover
+ *   localStorage, sessionStorage, an in-memory map, cookies and IndexedDB. Pass a stable reference, not one
+ *   created during render. With an async backend the hook renders the defaults until the stored data has
+ *   loaded; updates made in the meantime are replayed on top of it.
+ * @param options.hydrate - `"deferred"` renders the defaults on the server and on the first client render,
+ *   then applies the stored data in an effect after mount, avoiding hydration mismatches in server-rendered
+ *   apps. `status` stays `"loading"` until then (default: "immediate")
+ * @param options.codecs - Optional custom serialization/deserialization functions for specific properties.
+ *   A field whose codec throws falls back to its default without affecting the other fields.
  * @param options.sanitize - Optional function to sanitize/validate data read from localStorage
- * @param options.onChange - Optional callback fired when state changes, receives the new state and metadata about the change source
- * @param options.syncAcrossTabs - Whether to sync state changes across browser tabs (default: true)
- * @param options.version - Optional version number for data migration
- * @param options.migrate - Optional function to migrate old data when version changes
+ * @param options.schema - Optional Standard Schema (Zod, Valibot, ArkType, ...) validating stored data. Invalid
+ *   fields fall back to their defaults one at a time and the issues are reported through `onError`. The state
+ *   type is inferred from the schema output. Only synchronous schemas are supported.
+ * @param options.writeStrategy - When updates are written: `"immediate"`, `{ debounceMs }` or `"idle"`
+ *   (default: "immediate"). Held-back writes are flushed on `pagehide`, when the page is hidden and when the
+ *   last instance using the key unmounts.
+ * @param options.validateWrites - Also validate every update against `schema`; invalid updates are rejected
+ *   and reported instead of being applied (default: false)
+ * @param options.onChange - Optional callback fired when state changes, receives the new state and metadata about the change source.
+ *   Changes made by another mounted instance with the same key are reported with the `"sync"` source, updates
+ *   from other tabs with `"external"`, or `"merged"` when they were merged with local changes,
+ *   state restored by `importState` with `"import"`, and the state of a new provider namespace with `"namespace"`.
+ * @param options.onError - Optional callback fired when reading, parsing, migrating, writing or removing fails.
+ *   Receives a `LocalStorageStateError` subclass and the failed operation.
+ * @param options.syncAcrossTabs - Whether to sync state changes across browser tabs (default: true).
+ *   With the `"storage-event"` transport, has no effect for backends that do not emit `storage` events.
+ * @param options.syncTransport - `"storage-event"` re-reads storage when another tab writes to it;
+ *   `"broadcast-channel"` sends the changed fields and the revision to other tabs through a `BroadcastChannel`,
+ *   which also works for other backends. Falls back to `"storage-event"` where `BroadcastChannel` is missing
+ *   (default: "storage-event")
+ * @param options.version - Schema version stored alongside the data (default: 0).
+ *   Data saved without a version is treated as version 0.
+ * @param options.migrate - Optional function to migrate old data, called with the version it was stored with
+ * @param options.migrations - Optional ordered migration steps keyed by target version, run one by one
+ *   from the stored version up to `version`. Takes precedence over `migrate`.
+ * @param options.migrationFallback - What to do when a migration throws: `"defaults"` discards the stored
+ *   data, `"backup"` additionally keeps the raw value under `${key}__backup` (default: "defaults")
+ * @param options.clearTo - State left by `clear`: the defaults, or `"empty"` for an empty object as in earlier
+ *   versions (default: "defaults")
+ * @param options.arrayMerge - How `patch` combines arrays: `"replace"`, `"concat"` or a custom function (default: "replace")
+ * @param options.ttl - Time-to-live in milliseconds for the whole object, or `{ all, fields }` to also expire
+ *   individual fields. Expired data falls back to the defaults, both when read and, through a timer, while
+ *   mounted (reported to `onChange` with the `"expired"` source)
+ * @param options.encryption - Encrypts the stored value with AES-GCM using `key`. Values encrypted with one of
+ *   `previousKeys` are re-encrypted with `key` when read. Reading becomes async, so the hook starts from the
+ *   defaults with `status` `"loading"`. A value that cannot be decrypted falls back to the defaults and is
+ *   reported as a `StorageDecryptionError`
+ * @param options.strategy - `"single"` stores the whole object under `key`; `"perField"` stores each top-level
+ *   property under `${key}:${field}`, with a manifest under `key`, so only the properties that changed are written
+ *   and other tabs only re-read those. Data stored in the other layout is converted when read (default: "single")
+ * @param options.resolveConflict - Called with the local, remote and base states when an update from another tab
+ *   was written without seeing this tab's last write, or while this tab has writes held back by `writeStrategy`.
+ *   The result is applied, written and reported to `onChange` with the `"merged"` source. By default fields
+ *   changed only locally are kept and the others are taken from the remote state
+ * @param options.persist - Writes only the fields in `include`, and none of those in `exclude`. The other fields stay
+ *   in state but are never written, and keep their value when another tab changes the stored data
+ * @param options.partialize - Returns the part of the state to write, for finer control than `persist`, which it
+ *   takes precedence over
+ * @param options.quotaPolicy - What a write does when storage is full before retrying: `"evict-lru"` removes the
+ *   least recently used keys of unmounted hooks and stores, `"evict-expired"` purges expired state,
+ *   `"drop-oldest-history"` drops the oldest steps of the persisted history, and `"fail"` reports a
+ *   `StorageQuotaExceededError`. Not applied to async backends (default: "fail")
+ * @param options.compression - Compresses stored values of at least `threshold` characters (default: 1024)
+ *   into UTF-16-safe strings prefixed with `lz:`. Uncompressed values are still read and compressed on the next write
+ * @param options.history - Records `set`, `patch`, `remove`, `reset` and `setState` for `undo`/`redo`. `limit` caps the
+ *   number of steps (default: 100); `persist` saves the history under `${key}__history` so it survives a reload
  *
  * @returns A tuple containing:
  *   - [0] The current state object
@@ -39,9 +101,16 @@ import { writeLocalStorage } from "./utils/writeLocalStorage";
  *     - `setState`: Standard React setState function
  *     - `get`: Get a specific property value
  *     - `set`: Set a specific property value (or delete if undefined)
- *     - `patch`: Merge partial updates into the state
+ *     - `patch`: Deep-merge partial updates into the state
  *     - `remove`: Remove one or more properties
- *     - `clear`: Clear all data from localStorage and reset to empty state
+ *     - `clear`: Remove the stored data and go back to the defaults, reported to `onChange` with the `"clear"` source
+ *     - `reset`: Restore the given properties, or all of them, to their defaults (source `"reset"`)
+ *     - `flush`: Write any update held back by `writeStrategy` right away
+ *     - `undo`/`redo`: Step through the history (with the `history` option)
+ *     - `canUndo`/`canRedo`: Whether there is a step to undo or redo
+ *     - `status`: `"loading"` until the stored data has been applied (async backends, deferred hydration),
+ *       then `"ready"` (or `"error"` if the read failed)
+ *     - `error`: The last storage failure, or `null`. Cleared by the next successful write
  *
  * @example
  * ```tsx
@@ -72,23 +141,21 @@ import { writeLocalStorage } from "./utils/writeLocalStorage";
  *   }
  * );
  *
- * // With data migration
+ * // With stepwise data migration
  * const [config, configApi] = useLocalStorageState(
  *   { apiUrl: 'https://api.example.com', timeout: 5000 },
  *   {
  *     key: 'app-config',
  *     version: 2,
- *     migrate: (stored, version) => {
- *       if (version < 2 && typeof stored === 'object' && stored !== null) {
- *         // Migrate from v1 to v2: rename 'endpoint' to 'apiUrl'
- *         const old = stored as any;
- *         return {
- *           apiUrl: old.endpoint || 'https://api.example.com',
- *           timeout: old.timeout || 5000
- *         };
- *       }
- *       return stored as Partial<typeof config>;
- *     }
+ *     migrations: {
+ *       // v0 -> v1: rename 'endpoint' to 'apiUrl'
+ *       1: (stored) => {
+ *         const { endpoint, ...rest } = stored as { endpoint?: string };
+ *         return { ...rest, apiUrl: endpoint };
+ *       },
+ *       // v1 -> v2: add a timeout
+ *       2: (stored) => ({ timeout: 5000, ...(stored as object) }),
+ *     },
  *   }
  * );
  * ```
@@ -97,13 +164,18 @@ export function useLocalStorageState<T extends Record<string, unknown>>(
   defaultsOption: DeepPartial<T> | (() => DeepPartial<T>),
   options: LocalStorageStateOptions<T>
 ): [T, LocalStorageApiActions<T>] {
+  // A `LocalStorageStateProvider` scopes the key and provides the backend
+  const scope = React.useContext(LocalStorageStateContext);
+  const key =
+    scope.namespace === undefined
+      ? options.key
+      : namespacedKey(scope.namespace, options.key);
   const {
-    key,
-    sanitize,
-    onChange,
+    storage = scope.storage ?? localStorageAdapter,
     syncAcrossTabs = true,
-    version,
-    migrate,
+    syncTransport = "storage-event",
+    hydrate = "immediate",
+    writeStrategy = "immediate",
   } = options;
 
   const defaults = React.useMemo(
@@ -111,106 +183,82 @@ export function useLocalStorageState<T extends Record<string, unknown>>(
     [defaultsOption]
   );
 
-  const readAll = React.useCallback((): Partial<T> => {
-    if (!isLocalStorageAvailable()) return {};
-    const raw = readLocalStorage<string>(key, (s) => s);
-    if (!raw) return {};
-    try {
-      const parsed = defaultDeserialize<Partial<T>>(raw);
-      if (version !== undefined && migrate) {
-        return migrate(parsed, version);
-      }
-      return parsed;
-    } catch {
-      return {};
+  const [instanceId] = React.useState(() => Symbol(key));
+  // The core reads the options of the latest render on every call
+  const config = resolveCoreConfig(
+    defaults,
+    { ...options, key, storage },
+    instanceId
+  );
+  const configRef = React.useRef(config);
+  configRef.current = config;
+  const [core] = React.useState(() =>
+    createStateCore<T>(() => configRef.current)
+  );
+  const serverSnapshotRef = React.useRef<SyncSnapshot<T> | null>(null);
+
+  // Recreated when the key changes so the store is subscribed to again
+  const subscribe = React.useCallback(
+    (onStoreChange: () => void) => core.subscribe(onStoreChange),
+    [core, storage, key]
+  );
+
+  const getServerSnapshot = React.useCallback(() => {
+    // Read once per render, without keeping anything in the registry on the
+    // server
+    if (serverSnapshotRef.current === null) {
+      serverSnapshotRef.current = core.readServerSnapshot();
     }
-  }, [key, version, migrate]);
+    return serverSnapshotRef.current;
+  }, [core]);
 
-  const readInitial = React.useCallback((): T => {
-    const persisted = readAll();
-    const sanitized = sanitize ? sanitize(persisted) : persisted;
-    return mergeWithDefaults<T>(sanitized as Partial<T>, defaults);
-  }, [readAll, defaults, sanitize]);
+  const snapshot = React.useSyncExternalStore(
+    subscribe,
+    core.getSnapshot,
+    getServerSnapshot
+  );
+
+  React.useEffect(() => {
+    void core.hydrate();
+  }, [core, storage, key, hydrate]);
 
-  const [state, setState] = React.useState<T>(readInitial);
-  const stateRef = React.useRef(state);
-  stateRef.current = state;
+  React.useEffect(() => {
+    core.loadHistory();
+  }, [core, storage, key, config.persistHistory]);
 
+  // Switching namespaces swaps in the state of the new scope
+  const namespaceRef = React.useRef(scope.namespace);
   React.useEffect(() => {
-    if (!syncAcrossTabs) return;
-    const handler = (event: StorageEvent) => {
-      if (event.key !== key) return;
-      const next = readInitial();
-      setState(next);
-      onChange?.(next, { source: "external" });
-    };
-    window.addEventListener("storage", handler);
-    return () => window.removeEventListener("storage", handler);
-  }, [key, readInitial, onChange, syncAcrossTabs]);
+    if (namespaceRef.current === scope.namespace) return;
+    namespaceRef.current = scope.namespace;
+    configRef.current.onChange?.(core.getSnapshot().state, {
+      source: "namespace",
+    });
+  }, [core, scope.namespace]);
 
-  const writeFull = React.useCallback(
-    (next: T) => {
-      if (!isLocalStorageAvailable()) return;
-      // Store the entire object under a single key, same as former 'single' strategy
-      writeLocalStorage<string>(key, defaultSerialize(next), (s) => s);
-    },
-    [key]
+  const batchesWrites = writeStrategy !== "immediate";
+  React.useEffect(
+    () => core.connect(),
+    [core, storage, key, syncAcrossTabs, syncTransport, batchesWrites]
   );
 
+  // Re-armed whenever the state changes, which is when expiries move
+  React.useEffect(() => core.watchExpiry(), [core, snapshot]);
+
+  const withHistory = config.historyLimit !== undefined;
+  const canUndo = withHistory && core.canUndo();
+  const canRedo = withHistory && core.canRedo();
+
   const api: LocalStorageApiActions<T> = React.useMemo(
     () => ({
-      setState: (updater) => {
-        setState((prev) => {
-          const next =
-            typeof updater === "function"
-              ? (updater as (p: T) => T)(prev)
-              : updater;
-          writeFull(next);
-          onChange?.(next, { source: "set" });
-          return next;
-        });
-      },
-      get: (k) => stateRef.current[k],
-      set: (k, value) => {
-        setState((prev) => {
-          const next: T = { ...prev };
-          const dict = next as unknown as Record<string, unknown>;
-          if (value === undefined) delete dict[k as string];
-          else dict[k as string] = value as unknown;
-          writeFull(next);
-          onChange?.(next, { source: "patch" });
-          return next;
-        });
-      },
-      patch: (partial) => {
-        setState((prev) => {
-          const next = { ...prev, ...(partial as Partial<T>) } as T;
-          writeFull(next);
-          onChange?.(next, { source: "patch" });
-          return next;
-        });
-      },
-      remove: (...keys) => {
-        setState((prev) => {
-          const next: T = { ...prev };
-          const dict = next as unknown as Record<string, unknown>;
-          for (const k of keys) {
-            delete dict[k as string];
-          }
-          writeFull(next);
-          onChange?.(next, { source: "patch" });
-          return next;
-        });
-      },
-      clear: () => {
-        setState(() => {
-          removeLocalStorage(key);
-          return {} as T;
-        });
-      },
+      ...core.actions,
+      status: snapshot.status,
+      error: snapshot.error,
+      canUndo,
+      canRedo,
     }),
-    [key, onChange, writeFull]
+    [core, snapshot.status, snapshot.error, canUndo, canRedo]
   );
 
-  return [state, api];
+  return [snapshot.state, api];
 }
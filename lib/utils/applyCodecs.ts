@@ -0,0 +1,61 @@
+import { Codec, CodecsMap } from "../types";
+
+function codecEntries<T>(codecs: CodecsMap<T>): [string, Codec<unknown>][] {
+  return Object.entries(codecs).filter(
+    (entry): entry is [string, Codec<unknown>] => entry[1] !== undefined
+  );
+}
+
+/**
+ * Runs each codec's `format` on its field. A field whose codec throws is left
+ * out of the result so the rest of the object can still be written.
+ */
+export function formatFields<T extends Record<string, unknown>>(
+  value: T,
+  codecs?: CodecsMap<T>,
+  onError?: (field: string, error: unknown) => void
+): Record<string, unknown> {
+  if (!codecs) return value;
+  const out: Record<string, unknown> = { ...value };
+  for (const [field, codec] of codecEntries(codecs)) {
+    const fieldValue = out[field];
+    if (fieldValue === undefined || fieldValue === null) continue;
+    try {
+      out[field] = codec.format(fieldValue);
+    } catch (error) {
+      delete out[field];
+      onError?.(field, error);
+    }
+  }
+  return out;
+}
+
+/**
+ * Runs each codec's `parse` on its field. A field that is not a string or
+ * whose codec throws is dropped so it falls back to its default.
+ */
+export function parseFields<T extends Record<string, unknown>>(
+  stored: Record<string, unknown>,
+  codecs?: CodecsMap<T>,
+  onError?: (field: string, error: unknown) => void
+): Partial<T> {
+  if (!codecs) return stored as Partial<T>;
+  const out: Record<string, unknown> = { ...stored };
+  for (const [field, codec] of codecEntries(codecs)) {
+    if (!(field in out)) continue;
+    const raw = out[field];
+    if (raw === null) continue;
+    if (typeof raw !== "string") {
+      delete out[field];
+      onError?.(field, new TypeError(`Expected a string, got ${typeof raw}`));
+      continue;
+    }
+    try {
+      out[field] = codec.parse(raw);
+    } catch (error) {
+      delete out[field];
+      onError?.(field, error);
+    }
+  }
+  return out as Partial<T>;
+}
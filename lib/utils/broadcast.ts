@@ -0,0 +1,83 @@
+import { AnyStorageAdapter } from "../types";
+import { Expiry } from "./expiry";
+import { Revision, TAB_ID } from "./revision";
+
+/**
+ * Sent to other tabs after a write with the `"broadcast-channel"` transport:
+ * the fields that changed, formatted as they are stored, and the ones that
+ * were removed.
+ */
+export type SyncMessage = {
+  tab: string;
+  version: number;
+  revision: Revision | undefined;
+  expiry: Expiry | undefined;
+  fields: Record<string, unknown>;
+  removed: string[];
+};
+
+type SyncMessageListener = (event: MessageEvent<SyncMessage>) => void;
+
+const CHANNEL_PREFIX = "use-local-storage-reacthook:";
+
+// One channel per backend, key and tab, shared by every consumer of the key
+const channels = new Map<
+  string,
+  { channel: BroadcastChannel; listeners: Set<SyncMessageListener> }
+>();
+
+/** Name of the channel other tabs use for `key` in the backend named `backend`. */
+export function channelName(backend: string, key: string): string {
+  return `${CHANNEL_PREFIX}${backend}:${key}`;
+}
+
+function channelOf(storage: AnyStorageAdapter, key: string): string {
+  return channelName(storage.name ?? "custom", key);
+}
+
+export function isBroadcastChannelSupported(): boolean {
+  return typeof BroadcastChannel !== "undefined";
+}
+
+/**
+ * Calls `listener` with the messages other tabs send for `key` in `storage`.
+ * Returns an unsubscribe function; the channel is closed once nobody listens.
+ */
+export function subscribeChannel(
+  storage: AnyStorageAdapter,
+  key: string,
+  listener: SyncMessageListener
+): () => void {
+  const name = channelOf(storage, key);
+  let open = channels.get(name);
+  if (!open) {
+    const listeners = new Set<SyncMessageListener>();
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+      if (event.data.tab === TAB_ID) return;
+      for (const current of Array.from(listeners)) current(event);
+    };
+    open = { channel, listeners };
+    channels.set(name, open);
+  }
+  const { channel, listeners } = open;
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0 || channels.get(name)?.channel !== channel) return;
+    channel.close();
+    channels.delete(name);
+  };
+}
+
+export function postChannelMessage(
+  storage: AnyStorageAdapter,
+  key: string,
+  message: Omit<SyncMessage, "tab">
+) {
+  const name = channelOf(storage, key);
+  const open = channels.get(name);
+  const channel = open?.channel ?? new BroadcastChannel(name);
+  channel.postMessage({ ...message, tab: TAB_ID });
+  if (!open) channel.close();
+}
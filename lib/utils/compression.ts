@@ -0,0 +1,205 @@
+import { CompressionOptions } from "../types";
+
+// Marks compressed values, so uncompressed ones written earlier (or below
+// the threshold) are still read as plain JSON
+const PREFIX = "lz:";
+const DEFAULT_THRESHOLD = 1024;
+
+// Every output character carries 15 bits, offset past the control
+// characters, so the result is valid UTF-16 and safe for Web Storage.
+const BITS_PER_CHAR = 15;
+const CHAR_OFFSET = 32;
+
+/**
+ * LZW-style compression of a UTF-16 string, in the format of lz-string's
+ * `compressToUTF16`.
+ */
+function compress(input: string): string {
+  const out: string[] = [];
+  let buffer = 0;
+  let position = 0;
+  const writeBits = (value: number, count: number) => {
+    for (let i = 0; i < count; i++) {
+      buffer = (buffer << 1) | (value & 1);
+      value >>= 1;
+      if (position === BITS_PER_CHAR - 1) {
+        position = 0;
+        out.push(String.fromCharCode(buffer + CHAR_OFFSET));
+        buffer = 0;
+      } else {
+        position++;
+      }
+    }
+  };
+
+  const dictionary = new Map<string, number>();
+  // Single characters not written out yet
+  const pending = new Set<string>();
+  let dictSize = 3;
+  let numBits = 2;
+  let enlargeIn = 2;
+  const enlarge = () => {
+    if (--enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+  };
+
+  const emit = (w: string) => {
+    if (pending.has(w)) {
+      const code = w.charCodeAt(0);
+      if (code < 256) {
+        writeBits(0, numBits);
+        writeBits(code, 8);
+      } else {
+        writeBits(1, numBits);
+        writeBits(code, 16);
+      }
+      enlarge();
+      pending.delete(w);
+    } else {
+      writeBits(dictionary.get(w) as number, numBits);
+    }
+    enlarge();
+  };
+
+  let w = "";
+  for (let i = 0; i < input.length; i++) {
+    const c = input.charAt(i);
+    if (!dictionary.has(c)) {
+      dictionary.set(c, dictSize++);
+      pending.add(c);
+    }
+    const wc = w + c;
+    if (dictionary.has(wc)) {
+      w = wc;
+    } else {
+      emit(w);
+      dictionary.set(wc, dictSize++);
+      w = c;
+    }
+  }
+  if (w !== "") emit(w);
+
+  // End of stream, then pad the last character
+  writeBits(2, numBits);
+  for (;;) {
+    buffer <<= 1;
+    if (position === BITS_PER_CHAR - 1) {
+      out.push(String.fromCharCode(buffer + CHAR_OFFSET));
+      break;
+    }
+    position++;
+  }
+  return out.join("") + " ";
+}
+
+/**
+ * Reverses `compress`. Returns null if the input is corrupted.
+ */
+function decompress(input: string): string | null {
+  const reset = 2 ** (BITS_PER_CHAR - 1);
+  const charAt = (index: number) => input.charCodeAt(index) - CHAR_OFFSET;
+  let value = charAt(0);
+  let position = reset;
+  let index = 1;
+  const readBits = (count: number) => {
+    let bits = 0;
+    for (let power = 1; power !== 2 ** count; power <<= 1) {
+      const bit = value & position;
+      position >>= 1;
+      if (position === 0) {
+        position = reset;
+        value = charAt(index++);
+      }
+      if (bit) bits |= power;
+    }
+    return bits;
+  };
+
+  let w: string;
+  switch (readBits(2)) {
+    case 0:
+      w = String.fromCharCode(readBits(8));
+      break;
+    case 1:
+      w = String.fromCharCode(readBits(16));
+      break;
+    case 2:
+      return "";
+    default:
+      return null;
+  }
+
+  // Codes 0-2 are reserved for the markers above
+  const dictionary: string[] = [];
+  dictionary[3] = w;
+  let dictSize = 4;
+  let numBits = 3;
+  let enlargeIn = 4;
+  const result = [w];
+  for (;;) {
+    if (index > input.length) return null;
+    let code = readBits(numBits);
+    if (code === 0 || code === 1) {
+      dictionary[dictSize++] = String.fromCharCode(
+        readBits(code === 0 ? 8 : 16)
+      );
+      code = dictSize - 1;
+      enlargeIn--;
+    } else if (code === 2) {
+      return result.join("");
+    }
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+
+    let entry = dictionary[code];
+    if (entry === undefined) {
+      if (code !== dictSize) return null;
+      entry = w + w.charAt(0);
+    }
+    result.push(entry);
+    dictionary[dictSize++] = w + entry.charAt(0);
+    enlargeIn--;
+    w = entry;
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+  }
+}
+
+export function isCompressed(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/**
+ * Compresses `serialized` when it is at least `threshold` characters long
+ * (default: 1024) and compressing makes it shorter.
+ */
+export function compressString(
+  serialized: string,
+  options: CompressionOptions
+): string {
+  if (!options) return serialized;
+  const threshold =
+    typeof options === "object"
+      ? options.threshold ?? DEFAULT_THRESHOLD
+      : DEFAULT_THRESHOLD;
+  if (serialized.length < threshold) return serialized;
+  const compressed = PREFIX + compress(serialized);
+  return compressed.length < serialized.length ? compressed : serialized;
+}
+
+/**
+ * Returns the serialized value of a stored one, decompressing it if it was
+ * compressed. Throws if the compressed data is corrupted.
+ */
+export function decompressString(value: string): string {
+  if (!isCompressed(value)) return value;
+  const result = decompress(value.slice(PREFIX.length));
+  if (result === null) throw new Error("Corrupted compressed data");
+  return result;
+}
@@ -0,0 +1,51 @@
+import { ArrayMergeStrategy } from "../types";
+
+/**
+ * True for object literals and `Object.create(null)` objects. Arrays and class
+ * instances (Date, Map, Set, ...) are not plain objects and are never merged
+ * key by key.
+ */
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value) as unknown;
+  return proto === Object.prototype || proto === null;
+}
+
+function mergeArrays(
+  target: unknown[],
+  source: unknown[],
+  strategy: ArrayMergeStrategy
+): unknown[] {
+  if (typeof strategy === "function") return strategy(target, source);
+  if (strategy === "concat") return [...target, ...source];
+  return source;
+}
+
+/**
+ * Recursively merges `source` into `target` without mutating either.
+ *
+ * - Plain objects are merged key by key.
+ * - Arrays follow `arrays` (default: `"replace"`).
+ * - `undefined` in `source` keeps the target value; `null` overwrites it.
+ * - Class instances and primitives in `source` replace the target value as is.
+ */
+export function deepMerge<T>(
+  target: T,
+  source: unknown,
+  options: { arrays?: ArrayMergeStrategy | undefined } = {}
+): T {
+  if (source === undefined) return target;
+  if (Array.isArray(target) && Array.isArray(source)) {
+    return mergeArrays(target, source, options.arrays ?? "replace") as T;
+  }
+  if (!isPlainObject(target) || !isPlainObject(source)) return source as T;
+
+  const out: Record<string, unknown> = { ...target };
+  for (const [k, value] of Object.entries(source)) {
+    if (value === undefined) continue;
+    out[k] = k in out ? deepMerge(out[k], value, options) : value;
+  }
+  return out as T;
+}
@@ -0,0 +1,46 @@
+import { AnyStorageAdapter, HydrationStatus } from "../types";
+import { SyncMeta } from "./syncRegistry";
+
+/** A consumer of a key (hook instance or store), as seen by the devtools. */
+export type DevtoolsInstance = {
+  key: string;
+  storage: AnyStorageAdapter;
+  origin: symbol;
+  inspect: () => {
+    value: unknown;
+    version: number;
+    status: HydrationStatus;
+    size: number | undefined;
+  };
+};
+
+/** A state change, as reported to the devtools. */
+export type DevtoolsChange = {
+  key: string;
+  storage: AnyStorageAdapter;
+  source: SyncMeta["source"];
+  origin: symbol | undefined;
+  prev: unknown;
+  next: unknown;
+};
+
+export type DevtoolsHook = {
+  connect: (instance: DevtoolsInstance) => () => void;
+  record: (change: DevtoolsChange) => void;
+};
+
+// Set by `enableDevtools`. Everything else about the devtools lives in
+// their own module, so it is left out of bundles that do not use it.
+let hook: DevtoolsHook | undefined;
+
+export function setDevtoolsHook(next: DevtoolsHook | undefined) {
+  hook = next;
+}
+
+export function connectDevtools(instance: DevtoolsInstance): () => void {
+  return hook?.connect(instance) ?? (() => {});
+}
+
+export function recordDevtools(change: DevtoolsChange) {
+  hook?.record(change);
+}
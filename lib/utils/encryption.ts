@@ -0,0 +1,81 @@
+import { EncryptionOptions } from "../types";
+
+// Marks values written by `encryptString`, so values stored before
+// encryption was turned on can still be recognized and upgraded
+const PREFIX = "enc:v1:";
+const IV_LENGTH = 12;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypts `plain` with AES-GCM under a fresh random IV, returning a string
+ * safe to store in Web Storage.
+ */
+export async function encryptString(
+  plain: string,
+  key: CryptoKey
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const cipher = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(plain)
+  );
+  const bytes = new Uint8Array(IV_LENGTH + cipher.byteLength);
+  bytes.set(iv);
+  bytes.set(new Uint8Array(cipher), IV_LENGTH);
+  return PREFIX + toBase64(bytes);
+}
+
+/**
+ * Decrypts a value written by `encryptString`, trying each key in turn.
+ * Throws if no key matches or the data was tampered with; AES-GCM cannot
+ * tell the two apart.
+ */
+export async function decryptString(
+  value: string,
+  keys: CryptoKey[]
+): Promise<{ plain: string; keyIndex: number }> {
+  const bytes = fromBase64(value.slice(PREFIX.length));
+  const iv = bytes.slice(0, IV_LENGTH);
+  const cipher = bytes.slice(IV_LENGTH);
+  let lastError: unknown = new Error("No decryption key");
+  for (const [keyIndex, key] of keys.entries()) {
+    try {
+      const plain = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv },
+        key,
+        cipher
+      );
+      return { plain: new TextDecoder().decode(plain), keyIndex };
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * The current key followed by the previous ones, in the order they are
+ * tried when decrypting.
+ */
+export function resolveKeys(
+  encryption: EncryptionOptions
+): Promise<CryptoKey[]> {
+  return Promise.all([encryption.key, ...(encryption.previousKeys ?? [])]);
+}
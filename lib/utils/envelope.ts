@@ -0,0 +1,141 @@
+import { Expiry } from "./expiry";
+import { readRevision, Revision } from "./revision";
+
+/**
+ * Shape written to storage: the persisted data together with the schema
+ * version it was saved with, the revision of the write and, when a
+ * time-to-live is set, when it expires.
+ */
+export type StoredEnvelope = {
+  __version: number;
+  data: unknown;
+  __revision?: Revision;
+  __expiresAt?: number;
+  __fieldExpiresAt?: Record<string, number>;
+};
+
+export function wrapEnvelope(
+  data: unknown,
+  version: number,
+  expiry?: Expiry,
+  revision?: Revision
+): StoredEnvelope {
+  const envelope: StoredEnvelope = { __version: version, data };
+  if (revision) envelope.__revision = revision;
+  if (expiry?.at !== undefined) envelope.__expiresAt = expiry.at;
+  if (expiry && Object.keys(expiry.fields).length > 0) {
+    envelope.__fieldExpiresAt = expiry.fields;
+  }
+  return envelope;
+}
+
+/**
+ * Shape written under the key itself by the `perField` strategy: the fields
+ * stored under their own keys, with the version and expiry an envelope
+ * would carry.
+ */
+export type StoredManifest = {
+  __version: number;
+  __fields: string[];
+  __expiresAt?: number;
+  __fieldExpiresAt?: Record<string, number>;
+};
+
+function readExpiry(parsed: {
+  __expiresAt?: unknown;
+  __fieldExpiresAt?: unknown;
+}): Expiry | undefined {
+  const at = parsed.__expiresAt;
+  const fields = parsed.__fieldExpiresAt;
+  if (typeof at !== "number" && (typeof fields !== "object" || !fields)) {
+    return undefined;
+  }
+  return {
+    at: typeof at === "number" ? at : undefined,
+    fields: (fields as Record<string, number> | undefined) ?? {},
+  };
+}
+
+export function wrapManifest(
+  fields: string[],
+  version: number,
+  expiry?: Expiry
+): StoredManifest {
+  const manifest: StoredManifest = { __version: version, __fields: fields };
+  if (expiry?.at !== undefined) manifest.__expiresAt = expiry.at;
+  if (expiry && Object.keys(expiry.fields).length > 0) {
+    manifest.__fieldExpiresAt = expiry.fields;
+  }
+  return manifest;
+}
+
+/**
+ * Extracts the field names, schema version and expiry from a parsed
+ * manifest. Returns undefined for any other value.
+ */
+export function readManifest(
+  parsed: unknown
+):
+  | { version: number; fields: string[]; expiry: Expiry | undefined }
+  | undefined {
+  if (
+    typeof parsed !== "object" ||
+    parsed === null ||
+    typeof (parsed as Partial<StoredManifest>).__version !== "number" ||
+    !Array.isArray((parsed as Partial<StoredManifest>).__fields)
+  ) {
+    return undefined;
+  }
+  const manifest = parsed as StoredManifest;
+  return {
+    version: manifest.__version,
+    fields: manifest.__fields.filter(
+      (field): field is string => typeof field === "string"
+    ),
+    expiry: readExpiry(manifest),
+  };
+}
+
+/**
+ * Extracts the data, its schema version, revision and expiry from a parsed
+ * storage value. Values written before versioning existed are treated as
+ * version 0.
+ */
+export function unwrapEnvelope(parsed: unknown): {
+  version: number;
+  data: unknown;
+  expiry: Expiry | undefined;
+  revision: Revision | undefined;
+} {
+  if (
+    typeof parsed === "object" &&
+    parsed !== null &&
+    typeof (parsed as Partial<StoredEnvelope>).__version === "number" &&
+    "data" in parsed
+  ) {
+    const envelope = parsed as StoredEnvelope;
+    return {
+      version: envelope.__version,
+      data: envelope.data,
+      expiry: readExpiry(envelope),
+      revision: readRevision(envelope.__revision),
+    };
+  }
+  return { version: 0, data: parsed, expiry: undefined, revision: undefined };
+}
+
+export function backupKey(key: string): string {
+  return `${key}__backup`;
+}
+
+export function historyKey(key: string): string {
+  return `${key}__history`;
+}
+
+export function fieldKey(key: string, field: string): string {
+  return `${key}:${field}`;
+}
+
+export function namespacedKey(namespace: string, key: string): string {
+  return `${namespace}::${key}`;
+}
@@ -0,0 +1,109 @@
+import { TimeToLive } from "../types";
+
+/**
+ * Expiry timestamps (ms since epoch) stored next to the data: one for the
+ * whole object and one per field with its own time-to-live.
+ */
+export type Expiry = {
+  at: number | undefined;
+  fields: Record<string, number>;
+};
+
+// setTimeout overflows past ~24.8 days and fires right away
+export const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+function normalizeTtl<T>(ttl: TimeToLive<T>): {
+  all: number | undefined;
+  fields: Record<string, number>;
+} {
+  if (typeof ttl === "number") return { all: ttl, fields: {} };
+  return {
+    all: ttl.all,
+    fields: (ttl.fields ?? {}) as Record<string, number>,
+  };
+}
+
+/**
+ * Returns the expiry after `prev` became `next` at `now`. The whole-object
+ * expiry restarts on every write, a field expiry only when that field
+ * changes.
+ */
+export function touchExpiry<T>(
+  expiry: Expiry | undefined,
+  prev: Record<string, unknown>,
+  next: Record<string, unknown>,
+  ttl: TimeToLive<T>,
+  now: number
+): Expiry | undefined {
+  const { all, fields: fieldTtl } = normalizeTtl(ttl);
+  const fields = { ...expiry?.fields };
+  for (const [field, ms] of Object.entries(fieldTtl)) {
+    if (!(field in next)) delete fields[field];
+    else if (!(field in fields) || prev[field] !== next[field]) {
+      fields[field] = now + ms;
+    }
+  }
+  return compactExpiry({
+    at: all === undefined ? expiry?.at : now + all,
+    fields,
+  });
+}
+
+/**
+ * Lists what has expired at `now`: the whole object, or individual fields.
+ */
+export function findExpired(
+  expiry: Expiry | undefined,
+  now: number
+): { all: boolean; fields: string[] } {
+  if (!expiry) return { all: false, fields: [] };
+  if (expiry.at !== undefined && expiry.at <= now) {
+    return { all: true, fields: [] };
+  }
+  return {
+    all: false,
+    fields: Object.keys(expiry.fields).filter(
+      (field) => (expiry.fields[field] as number) <= now
+    ),
+  };
+}
+
+/**
+ * Drops expired fields from `data` and their timestamps from `expiry`.
+ * Returns `undefined` data once the whole object has expired.
+ */
+export function dropExpired(
+  data: unknown,
+  expiry: Expiry | undefined,
+  now: number
+): { data: unknown; expiry: Expiry | undefined } {
+  const expired = findExpired(expiry, now);
+  if (expired.all) return { data: undefined, expiry: undefined };
+  if (expired.fields.length === 0) return { data, expiry };
+  const remaining = { ...(data as Record<string, unknown>) };
+  const fields = { ...expiry?.fields };
+  for (const field of expired.fields) {
+    delete remaining[field];
+    delete fields[field];
+  }
+  return {
+    data: remaining,
+    expiry: compactExpiry({ at: expiry?.at, fields }),
+  };
+}
+
+/**
+ * The earliest timestamp at which something in `expiry` runs out.
+ */
+export function nextExpiry(expiry: Expiry | undefined): number | undefined {
+  if (!expiry) return undefined;
+  const times = Object.values(expiry.fields);
+  if (expiry.at !== undefined) times.push(expiry.at);
+  return times.length > 0 ? Math.min(...times) : undefined;
+}
+
+function compactExpiry(expiry: Expiry): Expiry | undefined {
+  return expiry.at === undefined && Object.keys(expiry.fields).length === 0
+    ? undefined
+    : expiry;
+}
@@ -0,0 +1,48 @@
+import { ChangeSource } from "../types";
+
+/**
+ * Undo/redo stacks. `past` ends with the state `undo` returns to, `future`
+ * starts with the state `redo` returns to.
+ */
+export type History<T> = {
+  past: T[];
+  future: T[];
+};
+
+export function emptyHistory<T>(): History<T> {
+  return { past: [], future: [] };
+}
+
+/**
+ * Returns the history after the state went from `prev` to `next` because of
+ * `source`, keeping at most `limit` undo steps. Changes that did not come
+ * from this tab's updates keep the undo steps but drop the redo steps, which
+ * no longer follow from the current state.
+ */
+export function recordHistory<T>(
+  history: History<T>,
+  source: ChangeSource,
+  prev: T,
+  next: T,
+  limit: number
+): History<T> {
+  switch (source) {
+    case "undo":
+      return {
+        past: history.past.slice(0, -1),
+        future: [prev, ...history.future],
+      };
+    case "redo":
+      return {
+        past: [...history.past, prev].slice(-limit),
+        future: history.future.slice(1),
+      };
+    case "set":
+    case "patch":
+    case "reset":
+      if (prev === next) return history;
+      return { past: [...history.past, prev].slice(-limit), future: [] };
+    default:
+      return { past: history.past, future: [] };
+  }
+}
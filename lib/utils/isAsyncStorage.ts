@@ -0,0 +1,7 @@
+import { AnyStorageAdapter, AsyncStorageAdapter } from "../types";
+
+export function isAsyncStorage(
+  storage: AnyStorageAdapter
+): storage is AsyncStorageAdapter {
+  return storage.async === true;
+}
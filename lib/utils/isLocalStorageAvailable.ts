@@ -1,10 +0,0 @@
-export function isLocalStorageAvailable(): boolean {
-  try {
-    const testKey = "__ls_test__";
-    window.localStorage.setItem(testKey, "1");
-    window.localStorage.removeItem(testKey);
-    return true;
-  } catch {
-    return false;
-  }
-}
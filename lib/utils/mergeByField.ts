@@ -0,0 +1,26 @@
+/**
+ * The default `resolveConflict`: keeps the top-level fields changed locally
+ * since `base` and takes every other field from `remote`. A field changed on
+ * both sides takes the remote value, which is the one in storage.
+ */
+export function mergeByField<T extends Record<string, unknown>>(
+  local: T,
+  remote: T,
+  base: T,
+  isEqual: (field: string, a: unknown, b: unknown) => boolean
+): T {
+  const merged: Record<string, unknown> = {};
+  const fields = new Set([
+    ...Object.keys(base),
+    ...Object.keys(local),
+    ...Object.keys(remote),
+  ]);
+  for (const field of fields) {
+    const changedLocally = !isEqual(field, local[field], base[field]);
+    const changedRemotely = !isEqual(field, remote[field], base[field]);
+    const value =
+      changedLocally && !changedRemotely ? local[field] : remote[field];
+    if (value !== undefined) merged[field] = value;
+  }
+  return merged as T;
+}
@@ -1,8 +1,11 @@
 import { DeepPartial } from "../types";
+import { deepMerge, isPlainObject } from "./deepMerge";
 
 export function mergeWithDefaults<T extends Record<string, unknown>>(
   persisted: Partial<T>,
   defaults: DeepPartial<T>
 ): T {
-  return Object.assign({}, defaults, persisted) as T;
+  if (!isPlainObject(persisted)) return { ...defaults } as T;
+  // Stored arrays are the source of truth, so they always replace the defaults
+  return deepMerge({ ...defaults }, persisted, { arrays: "replace" }) as T;
 }
@@ -0,0 +1,16 @@
+import { LocalStorageStateError, StorageReadError } from "../errors";
+import { StorageAdapter } from "../types";
+
+export function readStorage(
+  storage: StorageAdapter,
+  key: string,
+  onError?: (error: LocalStorageStateError) => void
+): string | undefined {
+  try {
+    const raw = storage.getItem(key);
+    return raw === null ? undefined : raw;
+  } catch (error) {
+    onError?.(new StorageReadError(key, error));
+    return undefined;
+  }
+}
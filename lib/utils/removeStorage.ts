@@ -0,0 +1,14 @@
+import { LocalStorageStateError, StorageRemoveError } from "../errors";
+import { StorageAdapter } from "../types";
+
+export function removeStorage(
+  storage: StorageAdapter,
+  key: string,
+  onError?: (error: LocalStorageStateError) => void
+): void {
+  try {
+    storage.removeItem(key);
+  } catch (error) {
+    onError?.(new StorageRemoveError(key, error));
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Identifies a write: `counter` grows with every write to the key, from any
+ * tab, and `tab` is the tab that made it.
+ */
+export type Revision = { counter: number; tab: string };
+
+function createTabId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+// One id per page, shared by every key
+export const TAB_ID = createTabId();
+
+/**
+ * The revision of a write following `previous`, the last revision this tab
+ * knows of.
+ */
+export function nextRevision(previous: Revision | undefined): Revision {
+  return { counter: (previous?.counter ?? 0) + 1, tab: TAB_ID };
+}
+
+export function isSameRevision(
+  a: Revision | undefined,
+  b: Revision | undefined
+): boolean {
+  return a?.counter === b?.counter && a?.tab === b?.tab;
+}
+
+export function readRevision(value: unknown): Revision | undefined {
+  if (typeof value !== "object" || value === null) return undefined;
+  const { counter, tab } = value as Partial<Revision>;
+  return typeof counter === "number" && typeof tab === "string"
+    ? { counter, tab }
+    : undefined;
+}
@@ -0,0 +1,30 @@
+import { Migrations } from "../types";
+
+/**
+ * Upgrades stored data from `fromVersion` to `toVersion`.
+ *
+ * When `migrations` is given, each step `migrations[v]` runs in order for
+ * every version between the two (missing steps leave the data unchanged).
+ * Otherwise `migrate` is called once with the stored version.
+ */
+export function runMigrations(
+  data: unknown,
+  fromVersion: number,
+  toVersion: number,
+  options: {
+    migrations?: Migrations | undefined;
+    migrate?: ((stored: unknown, fromVersion: number) => unknown) | undefined;
+  }
+): unknown {
+  const { migrations, migrate } = options;
+  if (migrations) {
+    let current = data;
+    for (let v = fromVersion + 1; v <= toVersion; v++) {
+      const step = migrations[v];
+      if (step) current = step(current);
+    }
+    return current;
+  }
+  if (migrate) return migrate(data, fromVersion);
+  return data;
+}
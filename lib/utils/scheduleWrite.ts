@@ -0,0 +1,28 @@
+import { WriteStrategy } from "../types";
+
+type IdleWindow = Window & {
+  requestIdleCallback?: (callback: () => void) => number;
+  cancelIdleCallback?: (handle: number) => void;
+};
+
+/**
+ * Calls `run` according to `strategy` and returns a function cancelling it.
+ * `"idle"` falls back to a zero-delay timeout where `requestIdleCallback` is
+ * not available.
+ */
+export function scheduleWrite(
+  strategy: Exclude<WriteStrategy, "immediate">,
+  run: () => void
+): () => void {
+  if (strategy === "idle") {
+    const idle = window as IdleWindow;
+    if (idle.requestIdleCallback && idle.cancelIdleCallback) {
+      const handle = idle.requestIdleCallback(run);
+      return () => idle.cancelIdleCallback?.(handle);
+    }
+    const timeout = setTimeout(run, 0);
+    return () => clearTimeout(timeout);
+  }
+  const timeout = setTimeout(run, strategy.debounceMs);
+  return () => clearTimeout(timeout);
+}
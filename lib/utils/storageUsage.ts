@@ -0,0 +1,203 @@
+import {
+  AnyStorageAdapter,
+  AsyncStorageAdapter,
+  StorageAdapter,
+} from "../types";
+import { backupKey, fieldKey, historyKey } from "./envelope";
+import { isAsyncStorage } from "./isAsyncStorage";
+import { parseStoredState } from "./storedState";
+import { getMountedKeys } from "./syncRegistry";
+
+/**
+ * Key under which each backend keeps when its managed keys were last used,
+ * so that eviction and usage reports cover earlier visits too.
+ */
+export const LAST_USED_KEY = "use-local-storage-reacthook:lastUsed";
+
+// Keys read or written by a hook or store on each backend, with when they
+// were last used. Unlike the sync registry, keys stay here after their
+// consumers unmount.
+const managedKeys = new WeakMap<AnyStorageAdapter, Map<string, number>>();
+// When the time of each key was last persisted. Times are saved again once
+// they are a minute old, rather than on every read and write.
+const savedTimes = new WeakMap<AnyStorageAdapter, Map<string, number>>();
+const SAVE_INTERVAL = 60_000;
+// Loading the persisted times of async backends, then each save in order
+const pendingSaves = new WeakMap<AsyncStorageAdapter, Promise<void>>();
+
+function parseLastUsed(raw: string | null | undefined): [string, number][] {
+  let parsed: unknown;
+  try {
+    parsed = raw ? JSON.parse(raw) : undefined;
+  } catch {
+    return [];
+  }
+  if (typeof parsed !== "object" || parsed === null) return [];
+  return Object.entries(parsed).filter(
+    (entry): entry is [string, number] => typeof entry[1] === "number"
+  );
+}
+
+// Adds the persisted times of keys not used yet on this page
+function mergeLastUsed(keys: Map<string, number>, raw: string | null) {
+  for (const [key, lastUsed] of parseLastUsed(raw)) {
+    if (!keys.has(key)) keys.set(key, lastUsed);
+  }
+}
+
+function timesOf(storage: AnyStorageAdapter): Map<string, number> {
+  const existing = managedKeys.get(storage);
+  if (existing) return existing;
+  const keys = new Map<string, number>();
+  managedKeys.set(storage, keys);
+  if (isAsyncStorage(storage)) {
+    pendingSaves.set(
+      storage,
+      storage.getItem(LAST_USED_KEY).then(
+        (raw) => mergeLastUsed(keys, raw),
+        () => undefined
+      )
+    );
+  } else {
+    try {
+      mergeLastUsed(keys, storage.getItem(LAST_USED_KEY));
+    } catch {
+      // Unreadable storage has no times to start from
+    }
+  }
+  return keys;
+}
+
+// Cookies would go out with every request, and tab-scoped backends forget
+// the times along with everything else
+function keepsLastUsed(storage: AnyStorageAdapter): boolean {
+  return !storage.tabScoped && !storage.name?.startsWith("cookie:");
+}
+
+// Failing to save the times, e.g. when storage is full, only loses them
+function saveLastUsed(storage: AnyStorageAdapter) {
+  if (!keepsLastUsed(storage)) return;
+  const raw = JSON.stringify(Object.fromEntries(timesOf(storage)));
+  if (!isAsyncStorage(storage)) {
+    try {
+      storage.setItem(LAST_USED_KEY, raw);
+    } catch {
+      // Kept in memory for this page
+    }
+    return;
+  }
+  const saved = (pendingSaves.get(storage) ?? Promise.resolve())
+    .then(() => storage.setItem(LAST_USED_KEY, raw))
+    .catch(() => undefined);
+  pendingSaves.set(storage, saved);
+}
+
+// From least to most recently used
+function sortByLastUsed(keys: Map<string, number>): Map<string, number> {
+  return new Map(Array.from(keys).sort(([, a], [, b]) => a - b));
+}
+
+/**
+ * Records that `key` was just used. The time is also saved to `storage` when
+ * `persist` is set, which writes do for the `"evict-lru"` quota policy.
+ */
+export function touchManagedKey(
+  storage: AnyStorageAdapter,
+  key: string,
+  persist: boolean
+) {
+  // Server renders have no storage to manage, and would only pile keys up
+  if (typeof window === "undefined") return;
+  const keys = timesOf(storage);
+  // Re-inserted so keys used within the same millisecond stay in order
+  keys.delete(key);
+  const now = Date.now();
+  keys.set(key, now);
+  if (!persist) return;
+  const saved = savedTimes.get(storage) ?? new Map<string, number>();
+  savedTimes.set(storage, saved);
+  if (now - (saved.get(key) ?? -Infinity) < SAVE_INTERVAL) return;
+  saved.set(key, now);
+  saveLastUsed(storage);
+}
+
+/**
+ * Returns the managed keys of `storage`, including the ones used on earlier
+ * visits, from least to most recently used.
+ */
+export function getManagedKeys(storage: StorageAdapter): Map<string, number> {
+  return sortByLastUsed(timesOf(storage));
+}
+
+/** Like `getManagedKeys`, once the times persisted in `storage` are loaded. */
+export async function loadManagedKeys(
+  storage: AsyncStorageAdapter
+): Promise<Map<string, number>> {
+  const keys = timesOf(storage);
+  await pendingSaves.get(storage);
+  return sortByLastUsed(keys);
+}
+
+/**
+ * Size of a stored value in bytes, counting two bytes per character of its
+ * key and value as browsers do for their Web Storage quota.
+ */
+export function byteSize(targetKey: string, raw: string): number {
+  return (targetKey.length + raw.length) * 2;
+}
+
+/**
+ * The storage keys a state is written under: the key itself, its fields in
+ * the perField layout, and its persisted history and migration backup.
+ * `fields` defaults to the ones listed in the stored manifest.
+ */
+export function storedKeysOf(
+  key: string,
+  getItem: (key: string) => string | null | undefined,
+  fields = parseStoredState(getItem(key))?.fields ?? []
+): string[] {
+  return [
+    key,
+    ...fields.map((field) => fieldKey(key, field)),
+    historyKey(key),
+    backupKey(key),
+  ];
+}
+
+/** Bytes taken by `targetKeys` in storage, skipping missing ones. */
+export function storedSize(
+  targetKeys: string[],
+  getItem: (key: string) => string | null | undefined
+): number {
+  return targetKeys.reduce((size, targetKey) => {
+    const raw = getItem(targetKey);
+    return raw ? size + byteSize(targetKey, raw) : size;
+  }, 0);
+}
+
+/**
+ * Removes everything stored for the least recently used managed key of
+ * `storage` other than `except`. Keys used by mounted hooks and stores are
+ * kept. Returns false when there was nothing left to evict.
+ */
+export function evictLeastRecentlyUsed(
+  storage: StorageAdapter,
+  except: string
+): boolean {
+  const keys = timesOf(storage);
+  const mounted = getMountedKeys(storage);
+  for (const key of Array.from(sortByLastUsed(keys).keys())) {
+    if (key === except || mounted.has(key)) continue;
+    keys.delete(key);
+    savedTimes.get(storage)?.delete(key);
+    saveLastUsed(storage);
+    const getItem = (targetKey: string) => storage.getItem(targetKey);
+    const targetKeys = storedKeysOf(key, getItem).filter(
+      (targetKey) => getItem(targetKey) !== null
+    );
+    if (targetKeys.length === 0) continue;
+    for (const targetKey of targetKeys) storage.removeItem(targetKey);
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,91 @@
+import { AsyncStorageAdapter } from "../types";
+import { decompressString } from "./compression";
+import { fieldKey, readManifest, unwrapEnvelope } from "./envelope";
+import { isEncrypted } from "./encryption";
+import { dropExpired, Expiry } from "./expiry";
+import { Revision } from "./revision";
+import { defaultDeserialize } from "./serialization";
+
+/**
+ * A value written by this library, read without the options of its key.
+ * For a perField manifest, `fields` lists the fields stored under their own
+ * keys and `data` is not set.
+ */
+export type StoredState = {
+  version: number;
+  data: unknown;
+  fields: string[] | undefined;
+  expiry: Expiry | undefined;
+  revision: Revision | undefined;
+};
+
+/**
+ * Parses a stored value. Returns undefined when there is none, and for
+ * values that cannot be read without the options of their key (encrypted)
+ * or were not written by this library.
+ */
+export function parseStoredState(
+  raw: string | null | undefined
+): StoredState | undefined {
+  if (!raw || isEncrypted(raw)) return undefined;
+  let parsed: unknown;
+  try {
+    parsed = defaultDeserialize<unknown>(decompressString(raw));
+  } catch {
+    return undefined;
+  }
+  const manifest = readManifest(parsed);
+  if (manifest) return { ...manifest, data: undefined, revision: undefined };
+  return { ...unwrapEnvelope(parsed), fields: undefined };
+}
+
+/**
+ * Returns the live data of a stored value, assembling a manifest from its
+ * fields read through `readField`. Returns undefined when it has expired or
+ * is not an object.
+ */
+export function readStoredData(
+  stored: StoredState,
+  readField: (field: string) => string | null | undefined,
+  now: number
+): Record<string, unknown> | undefined {
+  let data = stored.data;
+  if (stored.fields) {
+    const assembled: Record<string, unknown> = {};
+    for (const field of stored.fields) {
+      const raw = readField(field);
+      if (!raw) continue;
+      try {
+        assembled[field] = defaultDeserialize<unknown>(decompressString(raw));
+      } catch {
+        // A corrupted field is left out
+      }
+    }
+    data = assembled;
+  }
+  const live = dropExpired(data, stored.expiry, now).data;
+  if (typeof live !== "object" || live === null || Array.isArray(live)) {
+    return undefined;
+  }
+  return live as Record<string, unknown>;
+}
+
+/**
+ * Reads `keys` from an async backend, along with the fields of the perField
+ * manifests among them. Returns a synchronous lookup of the values read.
+ */
+export async function prefetchStored(
+  storage: AsyncStorageAdapter,
+  keys: string[]
+): Promise<(key: string) => string | null | undefined> {
+  const values = new Map<string, string | null>();
+  for (const key of keys) {
+    const raw = await storage.getItem(key);
+    values.set(key, raw);
+    for (const field of parseStoredState(raw)?.fields ?? []) {
+      const targetKey = fieldKey(key, field);
+      values.set(targetKey, await storage.getItem(targetKey));
+    }
+  }
+  return (key) => values.get(key);
+}
@@ -0,0 +1,285 @@
+import { LocalStorageStateError } from "../errors";
+import {
+  AnyStorageAdapter,
+  ChangeSource,
+  ExportedKey,
+  HydrationStatus,
+  ImportMode,
+} from "../types";
+import { Expiry } from "./expiry";
+import { emptyHistory, History } from "./history";
+import { Revision } from "./revision";
+
+export type SyncSnapshot<T> = {
+  state: T;
+  status: HydrationStatus;
+  error: LocalStorageStateError | null;
+};
+
+export type SyncMeta = {
+  /**
+   * `"hydrate"` marks stored data applied after mount, `"error"` a failure
+   * reported after the fact. Neither is reported through `onChange`.
+   */
+  source: ChangeSource | "hydrate" | "error";
+  /** Identifies the hook instance that made the change, if any. */
+  origin: symbol | undefined;
+};
+
+type SyncListener = (meta: SyncMeta) => void;
+
+/**
+ * A mounted hook instance or store, through which utilities such as
+ * `exportState` reach the key with its codecs, migrations and schema.
+ */
+export type MountedConsumer = {
+  /** Returns undefined while the stored data has not been loaded. */
+  exportKey: () => ExportedKey | undefined;
+  /** Returns why the data was not imported, if it was not. */
+  importKey: (
+    imported: ExportedKey,
+    options: { mode: ImportMode; dryRun: boolean }
+  ) => string | undefined;
+  /** Same as the `clear` action. */
+  clear: () => void;
+};
+
+export type SyncEntry<T> = {
+  snapshot: SyncSnapshot<T> | undefined;
+  listeners: Set<SyncListener>;
+  /** Last `storage` event or sync message handled for this key, so it is applied only once. */
+  lastEvent: Event | undefined;
+  /** Updates made before an async backend finished loading, replayed on top of the stored data. */
+  pending: ((prev: T) => T)[];
+  /**
+   * State left by a `clear` made before an async backend finished loading.
+   * The stored data is removed once loaded, and `pending` replayed on this.
+   */
+  pendingClear: T | undefined;
+  /** Set once an async read has been started for this entry. */
+  hydration: Promise<void> | undefined;
+  /** Tail of the async write queue, so writes are applied in order. */
+  writes: Promise<void>;
+  /** Write held back by a debounced or idle `writeStrategy`. */
+  scheduledWrite: { run: () => void; cancel: () => void } | undefined;
+  /** When the stored data, or some of its fields, runs out of time-to-live. */
+  expiry: Expiry | undefined;
+  /** Undo/redo steps, when the `history` option is set. */
+  history: History<T>;
+  /** Set once the persisted history has been requested. */
+  historyLoaded: boolean;
+  /**
+   * With the `perField` layout, the manifest and field values last read from
+   * or written to storage, so unchanged ones are not written again.
+   */
+  fieldLayout: FieldLayout;
+  /** Revision of the data last read from or written to storage. */
+  revision: Revision | undefined;
+  /**
+   * The state last read from storage followed by the ones this tab wrote
+   * since, so the state a concurrent write from another tab was based on
+   * can be found.
+   */
+  synced: { revision: Revision | undefined; state: T }[];
+  /** One per mounted hook instance or store using the key. */
+  consumers: Set<MountedConsumer>;
+};
+
+export type FieldLayout = {
+  manifest: string | undefined;
+  fields: Map<string, string>;
+};
+
+export function emptyFieldLayout(): FieldLayout {
+  return { manifest: undefined, fields: new Map() };
+}
+
+// Keys are scoped to their backend: "prefs" in localStorage and "prefs" in
+// sessionStorage are unrelated.
+const registries = new WeakMap<
+  AnyStorageAdapter,
+  Map<string, SyncEntry<unknown>>
+>();
+
+function getRegistry(
+  storage: AnyStorageAdapter
+): Map<string, SyncEntry<unknown>> {
+  let registry = registries.get(storage);
+  if (!registry) {
+    registry = new Map();
+    registries.set(storage, registry);
+  }
+  return registry;
+}
+
+/**
+ * Returns the entry shared by every mounted hook instance using `key` on
+ * `storage`, creating it if needed.
+ */
+export function getSyncEntry<T>(
+  storage: AnyStorageAdapter,
+  key: string
+): SyncEntry<T> {
+  const registry = getRegistry(storage);
+  let entry = registry.get(key);
+  if (!entry) {
+    entry = {
+      snapshot: undefined,
+      listeners: new Set(),
+      lastEvent: undefined,
+      pending: [],
+      pendingClear: undefined,
+      hydration: undefined,
+      writes: Promise.resolve(),
+      scheduledWrite: undefined,
+      expiry: undefined,
+      history: emptyHistory(),
+      historyLoaded: false,
+      fieldLayout: emptyFieldLayout(),
+      revision: undefined,
+      synced: [],
+      consumers: new Set(),
+    };
+    registry.set(key, entry);
+  }
+  return entry as SyncEntry<T>;
+}
+
+/**
+ * Returns the shared snapshot for `key`, initializing it with `read` the
+ * first time it is needed.
+ */
+export function getSyncSnapshot<T>(
+  storage: AnyStorageAdapter,
+  key: string,
+  read: () => SyncSnapshot<T>
+): SyncSnapshot<T> {
+  const entry = getSyncEntry<T>(storage, key);
+  if (!entry.snapshot) entry.snapshot = read();
+  return entry.snapshot;
+}
+
+/**
+ * Replaces the shared snapshot of `entry` and notifies every subscriber.
+ */
+export function publishSyncSnapshot<T>(
+  entry: SyncEntry<T>,
+  next: SyncSnapshot<T>,
+  meta: SyncMeta
+) {
+  entry.snapshot = next;
+  for (const listener of Array.from(entry.listeners)) {
+    listener(meta);
+  }
+}
+
+/**
+ * Subscribes to changes for `key`. Once the last subscriber leaves, any
+ * held-back write is flushed and the shared state is dropped so the next
+ * mount reads storage again.
+ */
+export function subscribeSyncState(
+  storage: AnyStorageAdapter,
+  key: string,
+  listener: SyncListener
+) {
+  const registry = getRegistry(storage);
+  const entry = getSyncEntry(storage, key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0 && registry.get(key) === entry) {
+      flushEntryWrite(entry);
+      registry.delete(key);
+    }
+  };
+}
+
+/**
+ * Drops the entry for `key` unless it holds a snapshot or has subscribers,
+ * for reads that never subscribe, such as server renders.
+ */
+export function releaseSyncEntry(storage: AnyStorageAdapter, key: string) {
+  const registry = getRegistry(storage);
+  const entry = registry.get(key);
+  if (entry && !entry.snapshot && entry.listeners.size === 0) {
+    registry.delete(key);
+  }
+}
+
+/**
+ * Returns the keys of `storage` used by mounted consumers, with one of
+ * their consumers each.
+ */
+export function getMountedKeys(
+  storage: AnyStorageAdapter
+): Map<string, MountedConsumer> {
+  const mounted = new Map<string, MountedConsumer>();
+  for (const [key, entry] of getRegistry(storage)) {
+    const [consumer] = entry.consumers;
+    if (consumer) mounted.set(key, consumer);
+  }
+  return mounted;
+}
+
+/**
+ * Marks a `storage` event or sync message as handled for `key`. Returns false if another
+ * instance already handled it.
+ */
+export function claimStorageEvent(
+  storage: AnyStorageAdapter,
+  key: string,
+  event: Event
+): boolean {
+  const entry = getSyncEntry(storage, key);
+  if (entry.lastEvent === event) return false;
+  entry.lastEvent = event;
+  return true;
+}
+
+/**
+ * Replaces the entry's held-back write. `schedule` arms the timer and returns
+ * a function cancelling it.
+ */
+export function scheduleEntryWrite<T>(
+  entry: SyncEntry<T>,
+  write: () => void,
+  schedule: (run: () => void) => () => void
+) {
+  entry.scheduledWrite?.cancel();
+  const run = () => {
+    entry.scheduledWrite = undefined;
+    write();
+  };
+  entry.scheduledWrite = { run, cancel: schedule(run) };
+}
+
+/**
+ * Runs the entry's held-back write now, if there is one.
+ */
+export function flushEntryWrite<T>(entry: SyncEntry<T>) {
+  const scheduled = entry.scheduledWrite;
+  if (!scheduled) return;
+  scheduled.cancel();
+  scheduled.run();
+}
+
+/**
+ * Drops the entry's held-back write without running it.
+ */
+export function cancelEntryWrite<T>(entry: SyncEntry<T>) {
+  entry.scheduledWrite?.cancel();
+  entry.scheduledWrite = undefined;
+}
+
+/**
+ * Appends `task` to the entry's write queue. Failures do not stop later
+ * writes from running.
+ */
+export function enqueueWrite<T>(
+  entry: SyncEntry<T>,
+  task: () => Promise<void>
+): Promise<void> {
+  entry.writes = entry.writes.then(task).catch(() => undefined);
+  return entry.writes;
+}
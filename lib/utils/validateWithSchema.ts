@@ -0,0 +1,51 @@
+import { StandardSchemaV1 } from "../standardSchema";
+
+type Validation<T> = {
+  value: T;
+  issues: ReadonlyArray<StandardSchemaV1.Issue> | undefined;
+};
+
+function validateSync<T>(
+  schema: StandardSchemaV1<unknown, T>,
+  value: unknown
+): StandardSchemaV1.Result<T> {
+  const result = schema["~standard"].validate(value);
+  if (result instanceof Promise) {
+    throw new TypeError("Async schemas are not supported");
+  }
+  return result;
+}
+
+function topLevelKey(issue: StandardSchemaV1.Issue): string | undefined {
+  const segment = issue.path?.[0];
+  if (segment === undefined) return undefined;
+  const key = typeof segment === "object" ? segment.key : segment;
+  return typeof key === "symbol" ? undefined : String(key);
+}
+
+/**
+ * Validates `candidate` against `schema`. Top-level fields with issues are
+ * replaced by their value in `defaults` and validated again; if that still
+ * fails, the defaults are returned as a whole. `issues` lists the problems
+ * found in `candidate`, if any.
+ */
+export function validateWithSchema<T extends Record<string, unknown>>(
+  schema: StandardSchemaV1<unknown, T>,
+  candidate: Record<string, unknown>,
+  defaults: Record<string, unknown>
+): Validation<T> {
+  const first = validateSync(schema, candidate);
+  if (!first.issues) return { value: first.value, issues: undefined };
+
+  const fields = first.issues.map(topLevelKey);
+  if (!fields.includes(undefined)) {
+    const repaired = { ...candidate };
+    for (const field of fields as string[]) {
+      if (field in defaults) repaired[field] = defaults[field];
+      else delete repaired[field];
+    }
+    const second = validateSync(schema, repaired);
+    if (!second.issues) return { value: second.value, issues: first.issues };
+  }
+  return { value: defaults as T, issues: first.issues };
+}
@@ -0,0 +1,29 @@
+import {
+  isQuotaExceededError,
+  LocalStorageStateError,
+  toWriteError,
+} from "../errors";
+import { StorageAdapter } from "../types";
+
+/**
+ * Writes `value` under `key`. When the backend is full, the write is retried
+ * for as long as `makeRoom` manages to free some space.
+ */
+export function writeStorage(
+  storage: StorageAdapter,
+  key: string,
+  value: string,
+  onError?: (error: LocalStorageStateError) => void,
+  makeRoom?: () => boolean
+): void {
+  for (;;) {
+    try {
+      storage.setItem(key, value);
+      return;
+    } catch (error) {
+      if (isQuotaExceededError(error) && makeRoom?.()) continue;
+      onError?.(toWriteError(key, error));
+      return;
+    }
+  }
+}
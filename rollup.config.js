@@ -2,22 +2,23 @@ import commonjs from "@rollup/plugin-commonjs";
 import resolve from "@rollup/plugin-node-resolve";
 import terser from "@rollup/plugin-terser";
 import typescript from "@rollup/plugin-typescript";
-import { readFileSync } from "fs";
 import dts from "rollup-plugin-dts";
 
-const packageJson = JSON.parse(readFileSync("./package.json", "utf8"));
-
 export default [
   {
-    input: "lib/index.ts",
+    input: { index: "lib/index.ts", testing: "lib/testing.ts" },
     output: [
       {
-        file: packageJson.main,
+        dir: "dist",
+        entryFileNames: "[name].js",
+        chunkFileNames: "[name]-[hash].js",
         format: "cjs",
         sourcemap: true,
       },
       {
-        file: packageJson.module,
+        dir: "dist",
+        entryFileNames: "[name].esm.js",
+        chunkFileNames: "[name]-[hash].esm.js",
         format: "esm",
         sourcemap: true,
       },
@@ -31,8 +32,8 @@ export default [
     external: ["react", "react-dom"],
   },
   {
-    input: "dist/index.d.ts",
-    output: [{ file: "dist/index.d.ts", format: "esm" }],
+    input: { index: "dist/index.d.ts", testing: "dist/testing.d.ts" },
+    output: [{ dir: "dist", format: "esm" }],
     plugins: [dts()],
     external: [/\.css$/],
   },